@@ -0,0 +1,367 @@
+import { createHash } from 'node:crypto';
+
+// an in-memory GitHub REST API for the offline check, just the endpoints
+// indexing a repository and opening a pull request use
+
+const API_ORIGIN = 'https://api.github.com';
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sha1 = (data) => createHash('sha1').update(data).digest('hex');
+
+function json(status, data) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+// `files` maps each path to its content, or to `{ content, mode }`
+export function createFakeGitHub({ owner, repo, defaultBranch, files }) {
+  // git objects by sha: blobs hold a Buffer, trees a flat map of every path
+  // below them and commits their tree and parents
+  const objects = new Map();
+  const refs = new Map();
+  const pulls = [];
+  let commitCount = 0;
+
+  const putBlob = (content) => {
+    const sha = sha1(
+      Buffer.concat([Buffer.from(`blob ${content.length}\0`), content])
+    );
+    objects.set(sha, { type: 'blob', content });
+    return sha;
+  };
+
+  const putTree = (entries) => {
+    const sorted = [...entries].sort(([a], [b]) => a.localeCompare(b));
+    const sha = sha1(`tree ${JSON.stringify(sorted)}`);
+    objects.set(sha, { type: 'tree', entries: new Map(sorted) });
+    return sha;
+  };
+
+  // git would hash the author and date too, the counter keeps equal commits apart
+  const putCommit = ({ tree, parents, message }) => {
+    const sha = sha1(
+      `commit ${JSON.stringify({ tree, parents, message, n: commitCount++ })}`
+    );
+    objects.set(sha, { type: 'commit', tree, parents, message });
+    return sha;
+  };
+
+  const get = (sha, type) => {
+    const object = objects.get(sha);
+    if (object?.type !== type) throw new HttpError(404, `No ${type} ${sha}`);
+    return object;
+  };
+
+  // a branch name or a commit sha
+  const resolveCommit = (ref) => {
+    const sha = refs.get(`heads/${ref}`) ?? ref;
+    get(sha, 'commit');
+    return sha;
+  };
+
+  const ancestors = (sha) => {
+    const seen = new Set();
+    const queue = [sha];
+    while (queue.length) {
+      const next = queue.shift();
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(...get(next, 'commit').parents);
+    }
+    return seen;
+  };
+
+  const commitData = (sha) => {
+    const commit = get(sha, 'commit');
+    return {
+      sha,
+      tree: { sha: commit.tree },
+      message: commit.message,
+      parents: commit.parents.map((parent) => ({ sha: parent })),
+    };
+  };
+
+  const pullData = (pull) => ({
+    number: pull.number,
+    state: pull.state,
+    title: pull.title,
+    body: pull.body,
+    draft: pull.draft,
+    html_url: `https://github.com/${owner}/${repo}/pull/${pull.number}`,
+    head: { ref: pull.head, sha: refs.get(`heads/${pull.head}`) },
+    base: { ref: pull.base },
+  });
+
+  const initialEntries = Object.entries(files).map(([path, file]) => {
+    const { content, mode = '100644' } =
+      typeof file === 'string' ? { content: file } : file;
+    return [path, { mode, sha: putBlob(Buffer.from(content)) }];
+  });
+  refs.set(
+    `heads/${defaultBranch}`,
+    putCommit({
+      tree: putTree(initialEntries),
+      parents: [],
+      message: 'Initial commit',
+    })
+  );
+
+  // `METHOD pattern` for the path after /repos/:owner/:repo
+  const routes = {
+    'GET ': () => ({
+      full_name: `${owner}/${repo}`,
+      default_branch: defaultBranch,
+    }),
+    'GET branches': () =>
+      [...refs.keys()].map((ref) => ({ name: ref.replace(/^heads\//, '') })),
+    'GET branches/:ref*': ({ ref }) => {
+      const sha = refs.get(`heads/${ref}`);
+      if (!sha) throw new HttpError(404, 'Branch not found');
+      return { name: ref, commit: { sha, commit: commitData(sha) } };
+    },
+    'GET git/ref/:ref*': ({ ref }) => {
+      const sha = refs.get(ref);
+      if (!sha) throw new HttpError(404, 'Not Found');
+      return { ref: `refs/${ref}`, object: { sha, type: 'commit' } };
+    },
+    'POST git/refs': (_, body) => {
+      const ref = body.ref.replace(/^refs\//, '');
+      if (refs.has(ref)) throw new HttpError(422, 'Reference already exists');
+      get(body.sha, 'commit');
+      refs.set(ref, body.sha);
+      return { ref: body.ref, object: { sha: body.sha, type: 'commit' } };
+    },
+    'PATCH git/refs/:ref*': ({ ref }, body) => {
+      const current = refs.get(ref);
+      if (!current) throw new HttpError(422, 'Reference does not exist');
+      if (!body.force && !ancestors(body.sha).has(current)) {
+        throw new HttpError(422, 'Update is not a fast forward');
+      }
+      refs.set(ref, body.sha);
+      return { ref: `refs/${ref}`, object: { sha: body.sha, type: 'commit' } };
+    },
+    'GET git/commits/:sha': ({ sha }) => commitData(sha),
+    'POST git/commits': (_, body) => {
+      get(body.tree, 'tree');
+      body.parents.forEach((parent) => get(parent, 'commit'));
+      return commitData(putCommit(body));
+    },
+    'GET git/trees/:sha': ({ sha }) => {
+      const { entries } = get(sha, 'tree');
+      const directories = new Set();
+      entries.forEach((_, path) => {
+        const parts = path.split('/');
+        for (let i = 1; i < parts.length; i++) {
+          directories.add(parts.slice(0, i).join('/'));
+        }
+      });
+      return {
+        sha,
+        truncated: false,
+        tree: [
+          ...[...directories].map((path) => ({
+            path,
+            mode: '040000',
+            type: 'tree',
+            sha: sha1(`directory ${sha} ${path}`),
+          })),
+          ...[...entries].map(([path, entry]) => ({
+            path,
+            mode: entry.mode,
+            type: 'blob',
+            sha: entry.sha,
+            size: get(entry.sha, 'blob').content.length,
+          })),
+        ],
+      };
+    },
+    'POST git/trees': (_, body) => {
+      const entries = new Map(
+        body.base_tree ? get(body.base_tree, 'tree').entries : []
+      );
+      body.tree.forEach((entry) => {
+        if (entry.sha === null) {
+          entries.delete(entry.path);
+          return;
+        }
+        if (entry.content === undefined) get(entry.sha, 'blob');
+        entries.set(entry.path, {
+          mode: entry.mode,
+          sha:
+            entry.content === undefined
+              ? entry.sha
+              : putBlob(Buffer.from(entry.content)),
+        });
+      });
+      return { sha: putTree(entries), truncated: false };
+    },
+    'GET git/blobs/:sha': ({ sha }) => ({
+      sha,
+      encoding: 'base64',
+      content: get(sha, 'blob').content.toString('base64'),
+    }),
+    'POST git/blobs': (_, body) => ({
+      sha: putBlob(Buffer.from(body.content, body.encoding || 'utf-8')),
+    }),
+    'GET contents/:path*': ({ path }, _, query) => {
+      const ref = query.get('ref') || defaultBranch;
+      const { tree } = get(resolveCommit(ref), 'commit');
+      const entry = get(tree, 'tree').entries.get(path);
+      if (!entry) throw new HttpError(404, 'Not Found');
+      const { content } = get(entry.sha, 'blob');
+      return {
+        type: 'file',
+        path,
+        name: path.split('/').pop(),
+        sha: entry.sha,
+        size: content.length,
+        encoding: 'base64',
+        content: content.toString('base64'),
+      };
+    },
+    'GET compare/:range*': ({ range }) => {
+      const [base, head] = range.split('...').map(resolveCommit);
+      const reachable = ancestors(base);
+      const commits = [...ancestors(head)]
+        .filter((sha) => !reachable.has(sha))
+        .reverse()
+        .map((sha) => ({
+          sha,
+          author: null,
+          commit: {
+            message: get(sha, 'commit').message,
+            author: { name: 'ProtoJam' },
+          },
+        }));
+      return { total_commits: commits.length, commits };
+    },
+    'GET pulls': (_, __, query) => {
+      const state = query.get('state') || 'open';
+      return pulls
+        .filter(
+          (pull) =>
+            (state === 'all' || pull.state === state) &&
+            (!query.get('head') ||
+              `${owner}:${pull.head}` === query.get('head')) &&
+            (!query.get('base') || pull.base === query.get('base'))
+        )
+        .map(pullData);
+    },
+    'POST pulls': (_, body) => {
+      if (!refs.has(`heads/${body.head}`)) {
+        throw new HttpError(422, `No branch ${body.head}`);
+      }
+      if (
+        pulls.some((pull) => pull.head === body.head && pull.state === 'open')
+      ) {
+        throw new HttpError(422, 'A pull request already exists');
+      }
+      const pull = {
+        number: pulls.length + 1,
+        state: 'open',
+        title: body.title,
+        body: body.body,
+        draft: Boolean(body.draft),
+        head: body.head,
+        base: body.base,
+      };
+      pulls.push(pull);
+      return pullData(pull);
+    },
+    'GET pulls/:number': ({ number }) => pullData(findPull(number)),
+    'PATCH pulls/:number': ({ number }, body) => {
+      const pull = findPull(number);
+      Object.assign(pull, body);
+      return pullData(pull);
+    },
+    'POST pulls/:number/requested_reviewers': ({ number }) =>
+      pullData(findPull(number)),
+    'POST issues/:number/labels': () => [],
+    'POST issues/:number/assignees': ({ number }) => pullData(findPull(number)),
+  };
+
+  function findPull(number) {
+    const pull = pulls.find((candidate) => candidate.number === Number(number));
+    if (!pull) throw new HttpError(404, 'Not Found');
+    return pull;
+  }
+
+  // segments of the path after /repos/:owner/:repo, a `*` parameter takes the
+  // rest of it since file paths may or may not have their slashes encoded
+  const match = (pattern, parts) => {
+    const keys = pattern ? pattern.split('/') : [];
+    const params = {};
+    for (const [index, key] of keys.entries()) {
+      if (key.endsWith('*')) {
+        params[key.slice(1, -1)] = parts.slice(index).join('/');
+        return parts.length > index ? params : null;
+      }
+      if (parts[index] === undefined) return null;
+      if (key.startsWith(':')) params[key.slice(1)] = parts[index];
+      else if (parts[index] !== key) return null;
+    }
+    return keys.length === parts.length ? params : null;
+  };
+
+  async function handle(input, init = {}) {
+    const url = new URL(typeof input === 'string' ? input : input.url);
+    const method = (init.method || 'GET').toUpperCase();
+    const [, repos, repoOwner, repoName, ...parts] = url.pathname
+      .replace(/\/$/, '')
+      .split('/')
+      .map(decodeURIComponent);
+    if (repos !== 'repos' || repoOwner !== owner || repoName !== repo) {
+      return json(404, { message: `Unknown repository in ${url.pathname}` });
+    }
+    const body = init.body ? JSON.parse(init.body) : {};
+
+    for (const [route, handler] of Object.entries(routes)) {
+      const [routeMethod, pattern] = route.split(' ');
+      if (routeMethod !== method) continue;
+      const params = match(pattern, parts);
+      if (!params) continue;
+      try {
+        return json(
+          method === 'POST' ? 201 : 200,
+          handler(params, body, url.searchParams)
+        );
+      } catch (error) {
+        if (error instanceof HttpError) {
+          return json(error.status, { message: error.message });
+        }
+        throw error;
+      }
+    }
+    return json(501, {
+      message: `${method} ${url.pathname} isn't implemented by the fake GitHub API`,
+    });
+  }
+
+  return {
+    origin: API_ORIGIN,
+    fetch: handle,
+    pulls,
+    branch: (name) => refs.get(`heads/${name}`),
+    // path to { mode, content } for every file in a commit
+    files: (sha) =>
+      new Map(
+        [...get(get(sha, 'commit').tree, 'tree').entries].map(
+          ([path, entry]) => [
+            path,
+            {
+              mode: entry.mode,
+              content: get(entry.sha, 'blob').content.toString(),
+            },
+          ]
+        )
+      ),
+  };
+}
@@ -0,0 +1,342 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import JSZip from 'jszip';
+import { createServer } from 'vite';
+import { createFakeGitHub } from './fakeGitHub.mjs';
+
+// upload → index → analyze → plan → pull request, the way the app runs them,
+// with the model replayed from fixtures/llm and GitHub faked in memory.
+// `--record` captures the fixtures again from the provider set in VITE_LLM_*
+
+const record = process.argv.includes('--record');
+process.env.VITE_LLM_MOCK = record ? 'record' : 'replay';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const readFixture = async (path) =>
+  JSON.parse(await readFile(`${root}fixtures/offline/${path}`, 'utf-8'));
+
+const prototype = await readFixture('prototype.json');
+const target = await readFixture('target-repo.json');
+const github = createFakeGitHub(target);
+
+// the app only talks to GitHub, the fixture endpoint and, when recording, the
+// model provider
+const networkFetch = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input.url;
+  if (url.startsWith(github.origin)) return github.fetch(input, init);
+
+  const fixture = url.match(/^\/__fixtures\/llm\/([a-f0-9]+)$/);
+  if (fixture) {
+    await mkdir(`${root}fixtures/llm`, { recursive: true });
+    await writeFile(`${root}fixtures/llm/${fixture[1]}.json`, `${init.body}\n`);
+    return new Response(null, { status: 204 });
+  }
+
+  if (record) return networkFetch(input, init);
+  throw new Error(`The offline check tried to reach ${url}`);
+};
+
+function check(condition, message) {
+  if (!condition) throw new Error(message);
+  console.log(`✓ ${message}`);
+}
+
+// llm.ts puts Buffer on window for the browser
+globalThis.window = globalThis;
+
+const server = await createServer({
+  root,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  // modules are loaded for Node, there's nothing to prebundle
+  optimizeDeps: { noDiscovery: true },
+});
+const load = (path) => server.ssrLoadModule(path);
+
+try {
+  const { Octokit } = await import('@octokit/rest');
+  const { unpackZip, processUploads } = await load('/src/utils/zipHandler.ts');
+  const { indexRepository } = await load('/src/utils/repoIndexer.ts');
+  const { selectTargetContext } = await load('/src/utils/contextSelector.ts');
+  const { detectFramework } = await load('/src/utils/frameworks.ts');
+  const { relocatePublicAssets } = await load('/src/utils/assets.ts');
+  const { groupCommits, commitPlanIssues } = await load(
+    '/src/utils/commits.ts'
+  );
+  const { defaultModelSettings } = await load('/src/utils/providers.ts');
+  const {
+    manifestPaths,
+    loadTargetManifests,
+    reconcileDependencies,
+    applyDependencyReport,
+  } = await load('/src/utils/dependencies.ts');
+  const {
+    analyzeDirectories,
+    generatePullRequestPlan,
+    generateIntegrationPlan,
+    PROMPT_VERSION,
+  } = await load('/src/utils/llm.ts');
+  const { createPullRequest, fetchFileContents, BranchConflictError } =
+    await load('/src/utils/github.ts');
+
+  // the prototype arrives as a zip wrapped in its project folder
+  const zip = new JSZip();
+  Object.entries(prototype.files).forEach(([path, content]) =>
+    zip.file(path, content)
+  );
+  // JSZip only reads Blobs in the browser, here it gets the bytes
+  const upload = await zip.generateAsync({ type: 'uint8array' });
+  const summary = await processUploads(await unpackZip(upload));
+  const kept = summary.files.map((file) => file.path);
+  check(
+    !kept.some((path) => /^(node_modules|dist)\//.test(path)),
+    `upload keeps ${kept.length} files and skips dependencies and build output`
+  );
+
+  const { owner, repo, defaultBranch: branch } = target;
+  const token = 'offline';
+  const octokit = new Octokit({ auth: token });
+  const repoIndex = await indexRepository(octokit, {
+    owner,
+    repo,
+    ref: branch,
+  });
+  const targetContext = await selectTargetContext(octokit, {
+    owner,
+    repo,
+    ref: repoIndex.commitSha,
+    entries: repoIndex.entries,
+    route: prototype.name,
+  });
+  const manifestContents = await fetchFileContents({
+    owner,
+    repo,
+    ref: repoIndex.commitSha,
+    paths: manifestPaths(repoIndex.entries),
+    token,
+    missingOnError: true,
+  });
+  const manifests = loadTargetManifests(repoIndex.entries, manifestContents);
+  const targetRepo = {
+    name: `${owner}/${repo}`,
+    structure: targetContext.entries,
+    branch,
+    ref: repoIndex.commitSha,
+    framework: detectFramework(targetContext.entries, manifestContents),
+  };
+  check(
+    targetRepo.framework.id === 'nextjs',
+    `${targetRepo.name} is indexed as a ${targetRepo.framework.id} app`
+  );
+  const structure = targetContext.entries.map(({ path, type }) => ({
+    path,
+    type,
+  }));
+  check(
+    detectFramework(structure, manifestContents).version ===
+      targetRepo.framework.version,
+    'the framework is detected from manifests the context left out'
+  );
+
+  const settings = defaultModelSettings;
+  const analysis = await analyzeDirectories(summary.files, targetRepo, {
+    settings,
+  });
+  check(
+    Boolean(analysis.prototypePath),
+    `analysis serves the prototype at ${analysis.prototypePath}`
+  );
+
+  const pullRequestPlan = await generatePullRequestPlan(
+    summary.files,
+    { ...targetRepo, analysis },
+    { settings }
+  );
+  check(
+    pullRequestPlan.steps.length > 0,
+    `the pull request is planned in ${pullRequestPlan.steps.length} steps`
+  );
+
+  const generated = await generateIntegrationPlan(
+    summary.files,
+    { ...targetRepo, analysis, pullRequestPlan },
+    { settings }
+  );
+  const relocated = relocatePublicAssets(generated, summary.files, {
+    ...targetRepo.framework,
+    root: analysis.projectRoot,
+  });
+  const layout = `<img src='/badge.svg' />`;
+  const assetCheck = relocatePublicAssets(
+    {
+      ...generated,
+      pullRequest: {
+        ...generated.pullRequest,
+        files: [
+          { path: 'app/new/page.tsx', operation: 'create', content: layout },
+          { path: 'app/layout.tsx', operation: 'modify', content: layout },
+        ],
+      },
+    },
+    summary.files,
+    { ...targetRepo.framework, root: analysis.projectRoot }
+  ).pullRequest.files;
+  check(
+    assetCheck[0].content !== layout && assetCheck[1].content === layout,
+    "relocated assets are only rewritten in the prototype's files"
+  );
+
+  const report = reconcileDependencies({
+    files: relocated.pullRequest.files,
+    prototypeFiles: summary.files,
+    entries: targetRepo.structure,
+    manifests,
+  });
+  const plan = applyDependencyReport(relocated, report);
+  check(
+    plan.pullRequest.files.length > 0,
+    `plan changes ${plan.pullRequest.files.length} files`
+  );
+
+  // a package the prototype never declared still has to reach package.json
+  const unversionedPlan = applyDependencyReport(
+    plan,
+    reconcileDependencies({
+      files: [
+        ...plan.pullRequest.files,
+        { path: 'app/id.ts', content: "export { nanoid } from 'nanoid';\n" },
+      ],
+      prototypeFiles: summary.files,
+      entries: targetRepo.structure,
+      manifests,
+    })
+  );
+  const manifest = unversionedPlan.pullRequest.files.find(
+    (file) => file.path === 'package.json'
+  );
+  check(
+    JSON.parse(manifest?.content || '{}').dependencies?.nanoid === 'latest' &&
+      unversionedPlan.integrationSteps.some((step) =>
+        step.startsWith('Review nanoid')
+      ),
+    'unversioned packages are added as latest and flagged for review'
+  );
+
+  // commits may name a renamed file by its old path, or a path no file has
+  const commitPlan = {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      files: [
+        {
+          path: 'components/SiteHeader.tsx',
+          operation: 'rename',
+          previousPath: 'components/Header.tsx',
+          content: '',
+        },
+      ],
+      commits: [
+        {
+          message: 'Rename the header',
+          files: ['components/Header.tsx', 'components/Nav.tsx'],
+        },
+      ],
+    },
+  };
+  const issues = commitPlanIssues(commitPlan);
+  check(
+    groupCommits(commitPlan)[0].message === 'Rename the header' &&
+      issues.unmatchedCommitPaths.join() === 'components/Nav.tsx',
+    'commits match renames by their old path and report unknown paths'
+  );
+
+  const baseHead = github.branch(branch);
+  const params = {
+    owner,
+    repo,
+    plan,
+    baseBranch: branch,
+    baseSha: repoIndex.commitSha,
+    branchName: `protojam-${prototype.name}`,
+    metadata: {
+      files: [],
+      newDependencies: report.additions,
+      installCommand: report.installCommand,
+      model: { provider: settings.provider, model: settings.model },
+      promptVersion: PROMPT_VERSION,
+    },
+    token,
+  };
+  const result = await createPullRequest(params);
+  check(
+    result.outcome === 'created' && github.pulls.length === 1,
+    `pull request #${result.number} opened from ${result.branch}`
+  );
+  check(github.branch(branch) === baseHead, `${branch} is left untouched`);
+
+  const files = github.files(github.branch(result.branch));
+  const missing = plan.pullRequest.files.filter(
+    (file) =>
+      file.operation !== 'delete' &&
+      file.encoding !== 'base64' &&
+      files.get(file.path)?.content !== file.content
+  );
+  check(
+    missing.length === 0,
+    `the branch has every planned file as planned${
+      missing.length ? `, not ${missing.map((file) => file.path)}` : ''
+    }`
+  );
+  check(
+    files.get('scripts/deploy.sh')?.mode === '100755',
+    'files outside the plan keep their modes'
+  );
+
+  // a second run finds the branch and has to be told how to continue
+  const conflict = await createPullRequest(params).catch((error) => error);
+  check(
+    conflict instanceof BranchConflictError &&
+      conflict.conflict.foreignCommits.length === 0,
+    `reopening ${result.branch} stops at a branch conflict`
+  );
+  const renamed = await createPullRequest({
+    ...params,
+    onBranchConflict: 'new-branch',
+  });
+  check(
+    renamed.outcome === 'renamed' &&
+      github.branch(result.branch) === result.commitSha,
+    `the retry opens ${renamed.branch} and leaves ${result.branch} as it was`
+  );
+
+  // the model leaves out the operation, and its usual mode, on an existing script
+  const unlabeled = await createPullRequest({
+    ...params,
+    branchName: 'protojam-deploy-script',
+    plan: {
+      ...plan,
+      pullRequest: {
+        ...plan.pullRequest,
+        files: [
+          {
+            path: 'scripts/deploy.sh',
+            mode: '100644',
+            content: '#!/bin/sh\nset -e\nnpm ci\nnpm run build\n',
+          },
+        ],
+      },
+    },
+  });
+  check(
+    github.files(unlabeled.commitSha).get('scripts/deploy.sh')?.mode ===
+      '100755',
+    'an existing script changed without an operation stays executable'
+  );
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -1,4 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Octokit } from '@octokit/rest';
 import {
@@ -7,9 +13,6 @@ import {
   Code2,
   GitPullRequest,
   Loader2,
-  FileCode,
-  Plus,
-  Minus,
   ChevronDown,
   ChevronRight,
   Lock,
@@ -17,28 +20,152 @@ import {
   FolderOpen,
   File,
   AlertCircle,
+  FileUp,
 } from 'lucide-react';
-import { processZipFile } from './utils/zipHandler';
-import { generateIntegrationPlan, type IntegrationPlan } from './utils/llm';
-import { createPullRequest } from './utils/github';
+import {
+  processUploads,
+  sourceFromPrototypeFiles,
+  unpackFiles,
+  type PrototypeSource,
+  type UploadSummary,
+} from './utils/zipHandler';
+import {
+  loadRemoteSource,
+  type RemoteSource,
+  type RemoteSourceKind,
+} from './utils/remoteSources';
+import {
+  loadUploadFilters,
+  saveUploadFilters,
+  type UploadEntry,
+  type UploadFilterSettings,
+  type UploadOverrides,
+} from './utils/uploadFilter';
+import { indexRepository } from './utils/repoIndexer';
+import { selectTargetContext } from './utils/contextSelector';
+import {
+  detectFramework,
+  frameworkStrategies,
+  getFrameworkStrategy,
+  selectFramework,
+  type FrameworkId,
+} from './utils/frameworks';
+import {
+  analyzeDirectories,
+  calculateFileChanges,
+  estimateIntegrationTokens,
+  generateIntegrationPlan,
+  generatePullRequestPlan,
+  GenerationCancelledError,
+  PROMPT_VERSION,
+  refineIntegrationPlan,
+  repairIntegrationFiles,
+  resultContent,
+  sourcePath,
+  type DirectoryAnalysis,
+  type IntegrationPlan,
+  type PartialIntegrationPlan,
+  type PrototypeFile,
+  type TokenUsage,
+} from './utils/llm';
+import {
+  BranchConflictError,
+  createPullRequest,
+  errorStatus,
+  fetchBranches,
+  fetchFileContents,
+  fetchProtoJamPullRequests,
+  updatePullRequest,
+  type BranchConflict,
+  type BranchConflictResolution,
+  type ExistingPullRequest,
+  type PullRequestResult,
+} from './utils/github';
+import { countChanges, diffLines } from './utils/diff';
+import {
+  loadModelSettings,
+  providerRegistry,
+  saveModelSettings,
+  type ModelSettings,
+} from './utils/providers';
+import { feedbackHistory, type PlanRevision } from './utils/planRevisions';
+import { relocatePublicAssets } from './utils/assets';
+import {
+  commitPlanIssues,
+  groupCommits,
+  renameCommitFile,
+} from './utils/commits';
+import { validatePlan, type FileDiagnostic } from './utils/validation';
+import { repairPlan } from './utils/repair';
+import {
+  createPlanBundle,
+  downloadFile,
+  exportFileName,
+  parsePlanBundle,
+  zipPlanFiles,
+} from './utils/planBundle';
+import { formatPatch } from './utils/patch';
+import {
+  createSessionId,
+  deleteSession,
+  duplicateSession,
+  listSessions,
+  loadActiveSessionId,
+  loadSession,
+  saveActiveSessionId,
+  saveSession,
+  type IntegrationSession,
+  type LLMRequest,
+  type SessionPullRequest,
+  type SessionSummary,
+} from './utils/sessions';
+import {
+  loadPullRequestOptions,
+  savePullRequestOptions,
+  type PullRequestMetadata,
+} from './utils/pullRequestDetails';
+import {
+  applyDependencyReport,
+  loadTargetManifests,
+  manifestPaths,
+  pendingAdditions,
+  reconcileDependencies,
+  type TargetManifests,
+} from './utils/dependencies';
+import { ModelSettingsPanel } from './components/ModelSettingsPanel';
+import { AnalysisReview } from './components/AnalysisReview';
+import { DependencyReportPanel } from './components/DependencyReportPanel';
+import { UploadSummaryPanel } from './components/UploadSummaryPanel';
+import { RemoteSourceForm } from './components/RemoteSourceForm';
+import { PlanRefinementPanel } from './components/PlanRefinementPanel';
+import { CommitPlanPanel } from './components/CommitPlanPanel';
+import { ValidationSummary } from './components/ValidationSummary';
+import { GenerationProgress } from './components/GenerationProgress';
+import { SessionHistoryPanel } from './components/SessionHistoryPanel';
+import {
+  PlanExportPanel,
+  type PlanExportKind,
+} from './components/PlanExportPanel';
+import { PullRequestOptionsPanel } from './components/PullRequestOptionsPanel';
+import {
+  PullRequestModePicker,
+  type PullRequestMode,
+} from './components/PullRequestModePicker';
+import {
+  FileChangePreview,
+  type DiffViewMode,
+  type FileChange,
+} from './components/FileChangePreview';
 
 interface UploadState {
   status: 'idle' | 'uploading' | 'processing' | 'success' | 'error';
   message?: string;
-  phase?: 'analyzing' | 'adapting' | 'generating';
-}
-
-interface FileChange {
-  path: string;
-  additions: number;
-  deletions: number;
-  content: string;
-  originalPath?: string;
-  changes?: string[];
+  phase?: 'analyzing' | 'planning' | 'adapting' | 'generating';
 }
 
 interface Repository {
   full_name: string;
+  default_branch: string;
   description: string;
   private: boolean;
   updated_at: string;
@@ -53,18 +180,19 @@ interface TreeNode {
   isOriginal?: boolean;
 }
 
-interface LLMRequest {
-  prototypeFiles: {
-    path: string;
-    content: string;
-  }[];
-  targetRepo: {
-    structure: {
-      path: string;
-      type: 'file' | 'directory';
-      content?: string;
-    }[];
-    name: string;
+// the plan without the files the user left out, indices match the full plan
+function excludeFiles(
+  plan: IntegrationPlan,
+  excluded: number[]
+): IntegrationPlan {
+  return {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      files: plan.pullRequest.files.filter(
+        (_, index) => !excluded.includes(index)
+      ),
+    },
   };
 }
 
@@ -186,65 +314,6 @@ function DirectoryTree({
   );
 }
 
-function FileChangePreview({ file }: { file: FileChange }) {
-  const [isExpanded, setIsExpanded] = useState(false);
-
-  return (
-    <div className='border border-gray-700 rounded-lg overflow-hidden'>
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className='w-full px-4 py-3 bg-gray-800 flex items-center justify-between hover:bg-gray-750 transition-colors'
-      >
-        <div className='flex items-center space-x-3'>
-          <FileCode className='h-4 w-4 text-gray-400' />
-          <div className='text-left'>
-            <span className='text-sm font-medium'>{file.path}</span>
-            {file.originalPath && (
-              <div className='text-xs text-amber-400'>
-                Original: {file.originalPath}
-              </div>
-            )}
-          </div>
-        </div>
-        <div className='flex items-center space-x-4'>
-          <span className='text-sm text-green-400 flex items-center'>
-            <Plus className='h-3 w-3 mr-1' />
-            {file.additions}
-          </span>
-          <span className='text-sm text-red-400 flex items-center'>
-            <Minus className='h-3 w-3 mr-1' />
-            {file.deletions}
-          </span>
-          {isExpanded ? (
-            <ChevronDown className='h-4 w-4 text-gray-400' />
-          ) : (
-            <ChevronRight className='h-4 w-4 text-gray-400' />
-          )}
-        </div>
-      </button>
-      {isExpanded && (
-        <div className='bg-gray-900 p-4'>
-          {file.changes && file.changes.length > 0 && (
-            <div className='mb-4 text-sm text-gray-300'>
-              <h4 className='font-medium mb-2'>Required Changes:</h4>
-              <ul className='list-disc list-inside space-y-1'>
-                {file.changes.map((change, index) => (
-                  <li key={index}>{change}</li>
-                ))}
-              </ul>
-            </div>
-          )}
-          <div className='overflow-x-auto'>
-            <pre className='text-sm font-mono'>
-              <code>{file.content}</code>
-            </pre>
-          </div>
-        </div>
-      )}
-    </div>
-  );
-}
-
 function App() {
   const [uploadState, setUploadState] = useState<UploadState>({
     status: 'idle',
@@ -254,14 +323,90 @@ function App() {
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [selectedRepo, setSelectedRepo] = useState<string>('');
   const [showRepoDropdown, setShowRepoDropdown] = useState(false);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [baseBranch, setBaseBranch] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [llmRequest, setLlmRequest] = useState<LLMRequest | null>(null);
+  const [analysis, setAnalysis] = useState<DirectoryAnalysis | null>(null);
+  const [targetManifests, setTargetManifests] =
+    useState<TargetManifests | null>(null);
   const [pullRequestPlan, setPullRequestPlan] =
     useState<IntegrationPlan | null>(null);
   const [repoTree, setRepoTree] = useState<TreeNode[]>([]);
   const [isPRCreating, setIsPRCreating] = useState(false);
   const [prUrl, setPrUrl] = useState<string | null>(null);
+  const [prMode, setPrMode] = useState<PullRequestMode>('create');
+  const [openPullRequests, setOpenPullRequests] = useState<
+    ExistingPullRequest[]
+  >([]);
+  const [isLoadingPullRequests, setIsLoadingPullRequests] = useState(false);
+  const [updatePullNumber, setUpdatePullNumber] = useState<number | null>(null);
+  const [prBranchName, setPrBranchName] = useState('');
+  const [branchConflict, setBranchConflict] = useState<BranchConflict | null>(
+    null
+  );
+  const [prOptions, setPrOptions] = useState(loadPullRequestOptions);
+  const [diagnostics, setDiagnostics] = useState<FileDiagnostic[] | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [repairError, setRepairError] = useState<string | null>(null);
+  // the latest validation run, results of older ones are dropped
+  const validationRun = useRef(0);
+  // target files fetched for validation, keyed by the analyzed commit
+  const targetFileCache = useRef<{
+    ref: string;
+    contents: Record<string, string | null>;
+  }>({ ref: '', contents: {} });
   const [prototypeName, setPrototypeName] = useState<string>('');
+  const [modelSettings, setModelSettings] = useState(loadModelSettings);
+  const [originalContents, setOriginalContents] = useState<
+    Record<string, string | null>
+  >({});
+  const [diffViewMode, setDiffViewMode] = useState<DiffViewMode>('unified');
+  const [excludedFiles, setExcludedFiles] = useState<number[]>([]);
+  const [revisions, setRevisions] = useState<PlanRevision[]>([]);
+  const [activeRevision, setActiveRevision] = useState(0);
+  const [isRefining, setIsRefining] = useState(false);
+  // the plan generation in flight, with what has streamed in so far
+  const [generation, setGeneration] = useState<{
+    startedAt: number;
+    usage: TokenUsage | null;
+    plan: PartialIntegrationPlan | null;
+  } | null>(null);
+  const generationAbort = useRef<AbortController | null>(null);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [sourceKind, setSourceKind] = useState<'upload' | RemoteSourceKind>(
+    'upload'
+  );
+  const [prototypeSource, setPrototypeSource] =
+    useState<PrototypeSource | null>(null);
+  const [uploadFilters, setUploadFilters] = useState(loadUploadFilters);
+  const [uploadOverrides, setUploadOverrides] = useState<UploadOverrides>({});
+  const [uploadSummary, setUploadSummary] = useState<UploadSummary | null>(
+    null
+  );
+  // the integration being worked on, saved to IndexedDB as it changes
+  const [session, setSession] = useState<{
+    id: string;
+    createdAt: string;
+  } | null>(null);
+  const [sessionPullRequests, setSessionPullRequests] = useState<
+    SessionPullRequest[]
+  >([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  // a reopened session is saved as it was, not as a new change
+  const skipSessionSave = useRef(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // an imported plan whose commit is behind the branch it was indexed from
+  const [staleCommit, setStaleCommit] = useState<{
+    branch: string;
+    bundleSha: string;
+    currentSha: string;
+  } | null>(null);
+  // what an imported plan was generated with, only applied when asked to
+  const [importedModelSettings, setImportedModelSettings] =
+    useState<ModelSettings | null>(null);
 
   // Initialize with environment variable token if available
   useEffect(() => {
@@ -277,24 +422,226 @@ function App() {
     }
   }, [token]);
 
+  useEffect(() => {
+    saveModelSettings(modelSettings);
+  }, [modelSettings]);
+
+  useEffect(() => {
+    saveUploadFilters(uploadFilters);
+  }, [uploadFilters]);
+
+  useEffect(() => {
+    savePullRequestOptions(prOptions);
+  }, [prOptions]);
+
+  // reopen the integration that was open before the reload
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const id = loadActiveSessionId();
+        const stored = id ? await loadSession(id) : undefined;
+        if (stored) restoreSession(stored);
+        setSessions(await listSessions());
+      } catch (error) {
+        console.error('Failed to load saved integrations:', error);
+      }
+    };
+    restore();
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    if (skipSessionSave.current) {
+      skipSessionSave.current = false;
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const stored: IntegrationSession = {
+        id: session.id,
+        name: prototypeName,
+        createdAt: session.createdAt,
+        updatedAt: new Date().toISOString(),
+        repository: selectedRepo,
+        baseBranch,
+        uploadSummary,
+        request: llmRequest,
+        targetManifests,
+        originalContents,
+        analysis,
+        revisions,
+        activeRevision,
+        plan: pullRequestPlan,
+        excludedFiles,
+        pullRequests: sessionPullRequests,
+      };
+      try {
+        await saveSession(stored);
+        saveActiveSessionId(session.id);
+        setSessions(await listSessions());
+      } catch (error) {
+        console.error('Failed to save the integration:', error);
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [
+    session,
+    prototypeName,
+    selectedRepo,
+    baseBranch,
+    uploadSummary,
+    llmRequest,
+    targetManifests,
+    originalContents,
+    analysis,
+    revisions,
+    activeRevision,
+    pullRequestPlan,
+    excludedFiles,
+    sessionPullRequests,
+  ]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: (acceptedFiles) => {
       handleFileUpload(acceptedFiles);
     },
   });
 
+  const fileChanges = useMemo<FileChange[]>(
+    () =>
+      (pullRequestPlan?.pullRequest.files || []).map((file) => ({
+        ...file,
+        content: resultContent(file),
+        originalContent: originalContents[sourcePath(file)],
+        ...(file.encoding === 'base64'
+          ? { additions: 0, deletions: 0 }
+          : countChanges(
+              diffLines(
+                originalContents[sourcePath(file)] ?? '',
+                resultContent(file)
+              )
+            )),
+      })),
+    [pullRequestPlan, originalContents]
+  );
+
+  const changeTotals = useMemo(
+    () =>
+      calculateFileChanges(
+        (pullRequestPlan?.pullRequest.files || [])
+          .filter((file) => file.encoding !== 'base64')
+          .map((file) => ({
+            path: sourcePath(file),
+            content: resultContent(file),
+          })),
+        Object.entries(originalContents)
+          .filter((entry): entry is [string, string] => entry[1] !== null)
+          .map(([path, content]) => ({ path, content }))
+      ),
+    [pullRequestPlan, originalContents]
+  );
+
+  // the plan as it will be pushed, without the files the user left out
+  const includedPlan = useMemo(
+    () => pullRequestPlan && excludeFiles(pullRequestPlan, excludedFiles),
+    [pullRequestPlan, excludedFiles]
+  );
+
+  const commitGroups = useMemo(
+    () => (includedPlan ? groupCommits(includedPlan) : []),
+    [includedPlan]
+  );
+  // checked on the whole plan, excluded files aren't missing from it
+  const commitIssues = useMemo(
+    () => pullRequestPlan && commitPlanIssues(pullRequestPlan),
+    [pullRequestPlan]
+  );
+
   useEffect(() => {
-    if (
-      pullRequestPlan?.pullRequest.files &&
-      llmRequest?.targetRepo?.structure
-    ) {
+    if (fileChanges.length && llmRequest?.targetRepo?.structure) {
       const tree = buildTreeFromPaths(
         llmRequest.targetRepo.structure || [],
-        pullRequestPlan.pullRequest.files || []
+        fileChanges
       );
       setRepoTree(tree);
     }
-  }, [pullRequestPlan, llmRequest]);
+  }, [fileChanges, llmRequest]);
+
+  const dependencyReport = useMemo(
+    () =>
+      pullRequestPlan && llmRequest && targetManifests
+        ? reconcileDependencies({
+            files: pullRequestPlan.pullRequest.files,
+            prototypeFiles: llmRequest.prototypeFiles,
+            entries: llmRequest.targetRepo.structure,
+            manifests: targetManifests,
+          })
+        : null,
+    [pullRequestPlan, llmRequest, targetManifests]
+  );
+
+  const prMetadata = useMemo<PullRequestMetadata | null>(() => {
+    if (!pullRequestPlan || !llmRequest) return null;
+    const framework = llmRequest.targetRepo.framework;
+    // only what the plan's package.json already declares is new in the PR
+    const pending = dependencyReport
+      ? pendingAdditions(pullRequestPlan, dependencyReport)
+      : {};
+    const newDependencies = Object.fromEntries(
+      Object.entries(dependencyReport?.additions || {}).filter(
+        ([name]) => !(name in pending)
+      )
+    );
+
+    return {
+      files: fileChanges
+        .filter((_, index) => !excludedFiles.includes(index))
+        .map((file) => ({
+          path: file.path,
+          operation: file.operation || 'create',
+          previousPath: file.previousPath,
+          additions: file.additions,
+          deletions: file.deletions,
+          binary: file.encoding === 'base64',
+        })),
+      framework: [
+        `${getFrameworkStrategy(framework.id).label}${
+          framework.version ? ` ${framework.version}` : ''
+        }`,
+        `${framework.routerType} router`,
+      ].join(', '),
+      newDependencies,
+      unversionedDependencies: dependencyReport?.checks
+        .filter(
+          (check) =>
+            check.status === 'unversioned' && check.name in newDependencies
+        )
+        .map((check) => check.name),
+      installCommand: Object.keys(newDependencies).length
+        ? dependencyReport?.installCommand
+        : undefined,
+      model: revisions[activeRevision]?.model,
+      promptVersion: PROMPT_VERSION,
+    };
+  }, [
+    pullRequestPlan,
+    llmRequest,
+    dependencyReport,
+    fileChanges,
+    excludedFiles,
+    revisions,
+    activeRevision,
+  ]);
+
+  const tokenEstimate = useMemo(
+    () =>
+      llmRequest
+        ? estimateIntegrationTokens(
+            llmRequest.prototypeFiles,
+            llmRequest.targetRepo
+          )
+        : null,
+    [llmRequest]
+  );
 
   const fetchRepositories = async (authToken: string) => {
     try {
@@ -325,77 +672,426 @@ function App() {
     }
   };
 
-  const handleFileUpload = async (files: File[]) => {
-    setUploadState({ status: 'uploading' });
+  // read the target repository at `branch`, the analysis, plan, diffs and
+  // pull request all use this snapshot
+  const indexTargetRepository = async (
+    prototypeFiles: PrototypeFile[],
+    repoName: string,
+    branch: string,
+    route = prototypeName
+  ) => {
+    const octokit = new Octokit({
+      auth: import.meta.env.VITE_GITHUB_TOKEN || token,
+    });
+    const [owner, repo] = repoName.split('/');
 
     try {
-      // Read file contents
-      const prototypeFiles = await Promise.all(
-        files.map(async (file) => {
-          if (file.name.endsWith('.zip')) {
-            return processZipFile(file);
-          } else {
-            return [
-              {
-                path: file.name,
-                content: await file.text(),
-              },
-            ];
-          }
-        })
+      // Index the full repository tree from the base branch
+      const repoIndex = await indexRepository(octokit, {
+        owner,
+        repo,
+        ref: branch,
+      });
+
+      // Send the most relevant target files in full
+      const targetContext = await selectTargetContext(octokit, {
+        owner,
+        repo,
+        ref: repoIndex.commitSha,
+        entries: repoIndex.entries,
+        route,
+      });
+
+      // package.json files the context selection didn't already load
+      const manifestContents = Object.fromEntries(
+        targetContext.entries
+          .filter((entry) => entry.content !== undefined)
+          .map((entry) => [entry.path, entry.content!])
+      );
+      const missingManifests = manifestPaths(repoIndex.entries).filter(
+        (path) => !(path in manifestContents)
+      );
+      if (missingManifests.length > 0) {
+        Object.assign(
+          manifestContents,
+          await fetchFileContents({
+            owner,
+            repo,
+            ref: repoIndex.commitSha,
+            paths: missingManifests,
+            token: import.meta.env.VITE_GITHUB_TOKEN || token,
+            // a manifest that doesn't load is treated like one that doesn't exist
+            missingOnError: true,
+          })
+        );
+      }
+      setTargetManifests(
+        loadTargetManifests(repoIndex.entries, manifestContents)
       );
 
+      const llmRequestData: LLMRequest = {
+        prototypeFiles,
+        targetRepo: {
+          name: repoName,
+          structure: targetContext.entries,
+          branch,
+          ref: repoIndex.commitSha,
+          framework: detectFramework(targetContext.entries, manifestContents),
+        },
+      };
+
+      setLlmRequest(llmRequestData);
+      setAnalysis(null);
+      setUploadState({
+        status: 'success',
+        message:
+          'Files uploaded successfully. Click "Analyze Integration" to proceed.',
+      });
+      return llmRequestData;
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 403) {
+        setUploadState({
+          status: 'error',
+          message:
+            'Unable to access repository. Please ensure your token has the "repo" scope and you have access to this repository.',
+        });
+      } else if (status === 404) {
+        setUploadState({
+          status: 'error',
+          message:
+            'Base branch not found. Please verify the branch exists in the target repository.',
+        });
+      } else {
+        setUploadState({
+          status: 'error',
+          message: 'Failed to analyze repository structure. Please try again.',
+        });
+      }
+    }
+  };
+
+  const loadPrototype = async (loadSource: () => Promise<PrototypeSource>) => {
+    setUploadState({ status: 'uploading' });
+
+    try {
+      // Read file contents, skipping build output and other noise
+      const source = await loadSource();
+      const summary = await processUploads(source, uploadFilters);
+      // a new prototype starts a new integration, the previous one stays saved
+      setSession({
+        id: createSessionId(),
+        createdAt: new Date().toISOString(),
+      });
+      setSessionPullRequests([]);
+      setPullRequestPlan(null);
+      setRevisions([]);
+      setActiveRevision(0);
+      setExcludedFiles([]);
+      setOriginalContents({});
+      setStaleCommit(null);
+      setImportedModelSettings(null);
+      setPrototypeSource(source);
+      setUploadOverrides({});
+      setUploadSummary(summary);
+
       // Prepare LLM request data
-      if (selectedRepo) {
-        const octokit = new Octokit({
-          auth: import.meta.env.VITE_GITHUB_TOKEN || token,
+      if (selectedRepo && baseBranch) {
+        await indexTargetRepository(summary.files, selectedRepo, baseBranch);
+      } else {
+        setUploadState({
+          status: 'success',
+          message: 'Files loaded. Select a target repository to continue.',
         });
-        const [owner, repo] = selectedRepo.split('/');
+      }
+    } catch (error) {
+      console.error('Failed to process files:', error);
+      setUploadState({
+        status: 'error',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to process files. Please try again.',
+      });
+    }
+  };
 
-        try {
-          // Fetch repository structure
-          const { data: repoContents } = await octokit.repos.getContent({
-            owner,
-            repo,
-            path: '',
-          });
+  const handleSelectRepository = async (repository: Repository) => {
+    const [owner, repo] = repository.full_name.split('/');
+    setSelectedRepo(repository.full_name);
+    setShowRepoDropdown(false);
+    setBaseBranch(repository.default_branch);
+    setBranches([repository.default_branch]);
 
-          const llmRequestData: LLMRequest = {
-            prototypeFiles: prototypeFiles.flat(),
-            targetRepo: {
-              name: selectedRepo,
-              structure: Array.isArray(repoContents)
-                ? repoContents.map((item) => ({
-                    path: item.path,
-                    type: item.type as 'file' | 'directory',
-                    content: item.type === 'file' ? item.content : undefined,
-                  }))
-                : [],
+    try {
+      const { branches } = await fetchBranches({
+        owner,
+        repo,
+        token: import.meta.env.VITE_GITHUB_TOKEN || token,
+      });
+      setBranches(branches);
+    } catch (error) {
+      console.error('Failed to list branches:', error);
+    }
+
+    if (uploadSummary) {
+      setUploadState({ status: 'uploading' });
+      await indexTargetRepository(
+        uploadSummary.files,
+        repository.full_name,
+        repository.default_branch
+      );
+    }
+  };
+
+  const handleBaseBranchChange = async (branch: string) => {
+    setBaseBranch(branch);
+    if (uploadSummary && selectedRepo) {
+      setUploadState({ status: 'uploading' });
+      await indexTargetRepository(uploadSummary.files, selectedRepo, branch);
+    }
+  };
+
+  const restoreSession = (stored: IntegrationSession) => {
+    skipSessionSave.current = true;
+    setSession({ id: stored.id, createdAt: stored.createdAt });
+    setSessionPullRequests(stored.pullRequests);
+    setPrototypeName(stored.name);
+    setSelectedRepo(stored.repository);
+    setBaseBranch(stored.baseBranch);
+    setBranches(stored.baseBranch ? [stored.baseBranch] : []);
+    setUploadSummary(stored.uploadSummary);
+    setPrototypeSource(
+      stored.uploadSummary
+        ? sourceFromPrototypeFiles(stored.uploadSummary.files)
+        : null
+    );
+    setUploadOverrides({});
+    setLlmRequest(stored.request);
+    setTargetManifests(stored.targetManifests);
+    setOriginalContents(stored.originalContents);
+    setAnalysis(stored.analysis);
+    setRevisions(stored.revisions);
+    setActiveRevision(stored.activeRevision);
+    setPullRequestPlan(stored.plan);
+    setExcludedFiles(stored.excludedFiles);
+    setDiagnostics(null);
+    setRefineError(null);
+    setRepairError(null);
+    setBranchConflict(null);
+    setExportError(null);
+    setStaleCommit(null);
+    setImportedModelSettings(null);
+    setPrUrl(null);
+    setShowPRPreview(Boolean(stored.plan));
+    setUploadState({ status: 'idle' });
+    saveActiveSessionId(stored.id);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const stored = await loadSession(id);
+      if (stored) restoreSession(stored);
+    } catch (error) {
+      console.error('Failed to open the integration:', error);
+    }
+  };
+
+  const handleDuplicateSession = async (id: string) => {
+    try {
+      restoreSession(await duplicateSession(id));
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error('Failed to duplicate the integration:', error);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      // the open integration stays on screen, but isn't saved again
+      if (session?.id === id) setSession(null);
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error('Failed to delete the integration:', error);
+    }
+  };
+
+  // a shared plan opens as a new integration, indexed at the branch's current
+  // head so the pull request can be opened from it
+  const handleImportBundle = async (file: File) => {
+    setUploadState({ status: 'uploading' });
+    try {
+      const bundle = parsePlanBundle(await file.text());
+      const { repository, branch, commitSha } = bundle.target;
+      const summary = await processUploads(
+        sourceFromPrototypeFiles(bundle.prototypeFiles),
+        uploadFilters,
+        // whoever exported the plan already chose these files
+        Object.fromEntries(
+          bundle.prototypeFiles.map((prototypeFile) => [
+            prototypeFile.path,
+            true,
+          ])
+        )
+      );
+
+      const now = new Date().toISOString();
+      const imported: IntegrationSession = {
+        id: createSessionId(),
+        name: bundle.name,
+        createdAt: now,
+        updatedAt: now,
+        repository,
+        baseBranch: branch,
+        uploadSummary: summary,
+        request: null,
+        targetManifests: null,
+        originalContents: {},
+        analysis: null,
+        revisions: [
+          {
+            plan: bundle.plan,
+            model: {
+              provider: bundle.modelSettings.provider,
+              model: bundle.modelSettings.model,
             },
-          };
-
-          setLlmRequest(llmRequestData);
-          setUploadState({
-            status: 'success',
-            message:
-              'Files uploaded successfully. Click "Analyze Integration" to proceed.',
-          });
-        } catch (error: any) {
-          if (error.status === 403) {
-            setUploadState({
-              status: 'error',
-              message:
-                'Unable to access repository. Please ensure your token has the "repo" scope and you have access to this repository.',
-            });
-          } else {
-            setUploadState({
-              status: 'error',
-              message:
-                'Failed to analyze repository structure. Please try again.',
-            });
-          }
-        }
+            createdAt: now,
+          },
+        ],
+        activeRevision: 0,
+        plan: bundle.plan,
+        excludedFiles: [],
+        pullRequests: [],
+      };
+      await saveSession(imported);
+      restoreSession(imported);
+      setSessions(await listSessions());
+      setImportedModelSettings(bundle.modelSettings);
+
+      const authToken = import.meta.env.VITE_GITHUB_TOKEN || token;
+      if (!authToken || !repository) return;
+      const request = await indexTargetRepository(
+        summary.files,
+        repository,
+        branch,
+        bundle.name
+      );
+      if (!request) return;
+
+      if (commitSha && request.targetRepo.ref !== commitSha) {
+        setStaleCommit({
+          branch,
+          bundleSha: commitSha,
+          currentSha: request.targetRepo.ref,
+        });
       }
+      const [owner, repo] = repository.split('/');
+      setOriginalContents(
+        await fetchFileContents({
+          owner,
+          repo,
+          ref: request.targetRepo.ref,
+          paths: [...new Set(bundle.plan.pullRequest.files.map(sourcePath))],
+          token: authToken,
+        })
+      );
+    } catch (error) {
+      console.error('Failed to import the plan:', error);
+      setUploadState({
+        status: 'error',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to import the plan. Please try again.',
+      });
+    }
+  };
+
+  const handleApplyImportedModel = () => {
+    if (!importedModelSettings) return;
+    setModelSettings((current) => ({
+      ...importedModelSettings,
+      // keys aren't exported, keep the one entered for the same provider
+      apiKey:
+        current.provider === importedModelSettings.provider
+          ? current.apiKey
+          : undefined,
+    }));
+    setImportedModelSettings(null);
+  };
+
+  const handleExport = async (kind: PlanExportKind) => {
+    if (!includedPlan) return;
+    setExportError(null);
+    try {
+      if (kind === 'bundle') {
+        const bundle = createPlanBundle({
+          name: prototypeName,
+          target: llmRequest
+            ? {
+                repository: llmRequest.targetRepo.name,
+                branch: llmRequest.targetRepo.branch,
+                commitSha: llmRequest.targetRepo.ref,
+              }
+            : { repository: selectedRepo, branch: baseBranch, commitSha: '' },
+          modelSettings,
+          plan: includedPlan,
+          prototypeFiles:
+            llmRequest?.prototypeFiles || uploadSummary?.files || [],
+        });
+        downloadFile(
+          exportFileName(prototypeName, '.protojam.json'),
+          new Blob([JSON.stringify(bundle, null, 2)], {
+            type: 'application/json',
+          })
+        );
+      } else if (kind === 'patch') {
+        downloadFile(
+          exportFileName(prototypeName, '.patch'),
+          new Blob([formatPatch(includedPlan, originalContents)], {
+            type: 'text/x-patch',
+          })
+        );
+      } else {
+        downloadFile(
+          exportFileName(prototypeName, '.zip'),
+          await zipPlanFiles(includedPlan, originalContents)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export the plan:', error);
+      setExportError(
+        error instanceof Error ? error.message : 'Failed to export the plan.'
+      );
+    }
+  };
+
+  const handleFileUpload = (files: File[]) =>
+    loadPrototype(() => unpackFiles(files));
+
+  const handleRemoteImport = (source: RemoteSource) =>
+    loadPrototype(() =>
+      loadRemoteSource(
+        new Octokit({ auth: import.meta.env.VITE_GITHUB_TOKEN || token }),
+        source
+      )
+    );
+
+  // re-run the filters over the same uploads, the target repo stays as indexed
+  const refilterUploads = async (
+    filters: UploadFilterSettings,
+    overrides: UploadOverrides
+  ) => {
+    if (!prototypeSource) return;
+    try {
+      const summary = await processUploads(prototypeSource, filters, overrides);
+      setUploadSummary(summary);
+      setLlmRequest((request) =>
+        request ? { ...request, prototypeFiles: summary.files } : request
+      );
+      // the analysis was made from the previous file set
+      setAnalysis(null);
     } catch (error) {
       console.error('Failed to process files:', error);
       setUploadState({
@@ -405,6 +1101,186 @@ function App() {
     }
   };
 
+  const handleToggleUploadEntry = (entry: UploadEntry) => {
+    const overrides = {
+      ...uploadOverrides,
+      [entry.path]: entry.status !== 'kept',
+    };
+    setUploadOverrides(overrides);
+    refilterUploads(uploadFilters, overrides);
+  };
+
+  const handleUploadFiltersChange = (filters: UploadFilterSettings) => {
+    setUploadFilters(filters);
+    refilterUploads(filters, uploadOverrides);
+  };
+
+  // current content of each touched path on the base branch, for diffing
+  const loadOriginalContents = useCallback(
+    async (paths: string[]) => {
+      const authToken = import.meta.env.VITE_GITHUB_TOKEN || token;
+      if (!llmRequest || !selectedRepo || !authToken) return {};
+
+      const [owner, repo] = selectedRepo.split('/');
+      try {
+        return await fetchFileContents({
+          owner,
+          repo,
+          ref: llmRequest.targetRepo.ref,
+          paths,
+          token: authToken,
+        });
+      } catch (error) {
+        console.error('Failed to load current file contents:', error);
+        return {};
+      }
+    },
+    [llmRequest, selectedRepo, token]
+  );
+
+  // validation reads the same files on every run, only fetch each one once
+  const loadTargetFiles = useCallback(
+    async (paths: string[]) => {
+      const ref = llmRequest?.targetRepo.ref || '';
+      if (targetFileCache.current.ref !== ref) {
+        targetFileCache.current = { ref, contents: {} };
+      }
+      const cache = targetFileCache.current.contents;
+      const missing = paths.filter((path) => !(path in cache));
+      if (missing.length) {
+        Object.assign(cache, await loadOriginalContents(missing));
+      }
+      return Object.fromEntries(
+        paths.map((path) => [path, cache[path] ?? null])
+      );
+    },
+    [llmRequest, loadOriginalContents]
+  );
+
+  // re-check the proposed files whenever they change, once edits settle
+  useEffect(() => {
+    if (!showPRPreview || !includedPlan || !llmRequest) return;
+    const run = ++validationRun.current;
+    const timer = setTimeout(async () => {
+      setIsValidating(true);
+      try {
+        const result = await validatePlan({
+          plan: includedPlan,
+          entries: llmRequest.targetRepo.structure,
+          manifests: targetManifests,
+          loadFiles: loadTargetFiles,
+        });
+        if (run !== validationRun.current) return;
+        setDiagnostics(result);
+        setValidationError(null);
+      } catch (error) {
+        console.error('Failed to validate the proposed files:', error);
+        if (run !== validationRun.current) return;
+        setValidationError(
+          error instanceof Error ? error.message : String(error)
+        );
+      } finally {
+        if (run === validationRun.current) setIsValidating(false);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [
+    showPRPreview,
+    includedPlan,
+    llmRequest,
+    targetManifests,
+    loadTargetFiles,
+  ]);
+
+  // automatic repair rounds on top of revision `parent`, each recorded as a
+  // revision of its own starting at index `start`
+  const repairRevisions = async (
+    plan: IntegrationPlan,
+    {
+      parent,
+      start,
+      targetRepo,
+      excluded = [],
+      abortSignal,
+      onProgress,
+    }: {
+      parent: number;
+      start: number;
+      targetRepo: LLMRequest['targetRepo'] & { analysis?: DirectoryAnalysis };
+      excluded?: number[];
+      abortSignal?: AbortSignal;
+      onProgress?: (message: string) => void;
+    }
+  ) => {
+    const recorded: PlanRevision[] = [];
+    const maxRounds = modelSettings.repairRounds ?? 0;
+    if (maxRounds <= 0) return recorded;
+
+    setRepairError(null);
+    try {
+      await repairPlan({
+        plan,
+        maxRounds,
+        validate: (candidate) =>
+          validatePlan({
+            plan: excludeFiles(candidate, excluded),
+            entries: targetRepo.structure,
+            manifests: targetManifests,
+            loadFiles: loadTargetFiles,
+          }),
+        repair: (candidate, errors) =>
+          repairIntegrationFiles(candidate, errors, targetRepo, {
+            settings: modelSettings,
+            abortSignal,
+          }),
+        onProgress,
+        onRound: (round, repaired) =>
+          recorded.push({
+            plan: repaired,
+            repair: round,
+            parent: recorded.length ? start + recorded.length - 1 : parent,
+            model: {
+              provider: modelSettings.provider,
+              model: modelSettings.model,
+            },
+            createdAt: new Date().toISOString(),
+          }),
+      });
+    } catch (error) {
+      // keep the rounds that finished, the plan is still usable without them
+      if (error instanceof GenerationCancelledError) return recorded;
+      console.error('Failed to repair the proposed files:', error);
+      setRepairError(
+        error instanceof Error ? error.message : 'Failed to repair the files'
+      );
+    }
+    return recorded;
+  };
+
+  const handleRepairPlan = async () => {
+    if (!pullRequestPlan || !llmRequest) return;
+
+    setIsRepairing(true);
+    try {
+      const recorded = await repairRevisions(pullRequestPlan, {
+        parent: activeRevision,
+        start: revisions.length,
+        targetRepo: {
+          ...llmRequest.targetRepo,
+          analysis: analysis ?? undefined,
+        },
+        excluded: excludedFiles,
+      });
+      if (recorded.length === 0) return;
+      setRevisions((current) => [...current, ...recorded]);
+      setActiveRevision(revisions.length + recorded.length - 1);
+      // repairs only rewrite contents, so the excluded files keep their indices
+      setPullRequestPlan(recorded[recorded.length - 1].plan);
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isAuthenticated || !selectedRepo || !llmRequest) return;
@@ -416,31 +1292,132 @@ function App() {
     });
 
     try {
-      // First analyze directories
-      // const analysis = await analyzeDirectories(
-      //   llmRequest.prototypeFiles,
-      //   llmRequest.targetRepo
-      // );
+      const result = await analyzeDirectories(
+        llmRequest.prototypeFiles,
+        llmRequest.targetRepo,
+        { settings: modelSettings }
+      );
+
+      setAnalysis(result);
+      setUploadState({
+        status: 'success',
+        message:
+          'Analysis complete! Review and correct it below, then generate the plan.',
+        phase: 'analyzing',
+      });
+    } catch (error) {
+      setUploadState({
+        status: 'error',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to analyze codebases',
+      });
+    }
+  };
+
+  const handleGeneratePlan = async () => {
+    if (!llmRequest || !analysis) return;
+
+    // drop blank lines left over from editing lists
+    const reviewed: DirectoryAnalysis = {
+      ...analysis,
+      recommendations: analysis.recommendations
+        .map((item) => item.trim())
+        .filter(Boolean),
+      compatibility: {
+        ...analysis.compatibility,
+        dependencies: analysis.compatibility.dependencies
+          .map((item) => item.trim())
+          .filter(Boolean),
+      },
+    };
+    setAnalysis(reviewed);
+
+    setUploadState({
+      status: 'processing',
+      message: 'Planning the pull request...',
+      phase: 'planning',
+    });
 
+    const onProgress = (message: string) =>
       setUploadState({
         status: 'processing',
-        message: 'Generating integration plan...',
+        message,
         phase: 'generating',
       });
+    const controller = new AbortController();
+    generationAbort.current = controller;
+    setGeneration({ startedAt: Date.now(), usage: null, plan: null });
 
-      // Generate the integration plan
-      const plan = await generateIntegrationPlan(
+    try {
+      // Plan the steps, then generate the integration plan that fills them in
+      const pullRequestPlan = await generatePullRequestPlan(
         llmRequest.prototypeFiles,
-        llmRequest.targetRepo
+        { ...llmRequest.targetRepo, analysis: reviewed },
+        { settings: modelSettings, abortSignal: controller.signal }
+      );
+      onProgress('Generating integration plan...');
+      const targetRepo = {
+        ...llmRequest.targetRepo,
+        analysis: reviewed,
+        pullRequestPlan,
+      };
+      const generated = await generateIntegrationPlan(
+        llmRequest.prototypeFiles,
+        targetRepo,
+        {
+          settings: modelSettings,
+          abortSignal: controller.signal,
+          onProgress,
+          onPartialPlan: (plan) =>
+            setGeneration((current) => current && { ...current, plan }),
+          onUsage: (usage) =>
+            setGeneration((current) => current && { ...current, usage }),
+          loadFiles: loadTargetFiles,
+        }
       );
+      const generatedPlan = preparePlan(generated);
+      const repaired = await repairRevisions(generatedPlan, {
+        parent: 0,
+        start: 1,
+        targetRepo,
+        abortSignal: controller.signal,
+        onProgress,
+      });
+      const plan = repaired.length
+        ? repaired[repaired.length - 1].plan
+        : generatedPlan;
 
       setPullRequestPlan(plan);
+      setExcludedFiles([]);
+      setRevisions([
+        {
+          plan: generatedPlan,
+          model: {
+            provider: modelSettings.provider,
+            model: modelSettings.model,
+          },
+          createdAt: new Date().toISOString(),
+        },
+        ...repaired,
+      ]);
+      setActiveRevision(repaired.length);
+      setRefineError(null);
+      setOriginalContents(
+        await loadOriginalContents(plan.pullRequest.files.map(sourcePath))
+      );
       setUploadState({
         status: 'success',
         message: 'Analysis complete! Review the integration plan below.',
       });
       setShowPRPreview(true);
     } catch (error) {
+      // the reviewed analysis stays on screen, so the plan can be generated again
+      if (error instanceof GenerationCancelledError) {
+        setUploadState({ status: 'idle' });
+        return;
+      }
       setUploadState({
         status: 'error',
         message:
@@ -448,9 +1425,36 @@ function App() {
             ? error.message
             : 'Failed to generate integration plan',
       });
+    } finally {
+      generationAbort.current = null;
+      setGeneration(null);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbort.current?.abort();
+  };
+
+  const handleFrameworkChange = (id: FrameworkId) => {
+    setLlmRequest((request) =>
+      request
+        ? {
+            ...request,
+            targetRepo: {
+              ...request.targetRepo,
+              framework: selectFramework(
+                request.targetRepo.structure,
+                id,
+                request.targetRepo.framework.root
+              ),
+            },
+          }
+        : request
+    );
+    // the analysis fields depend on the framework
+    setAnalysis(null);
+  };
+
   const handleTokenSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setUploadState({
@@ -507,30 +1511,262 @@ function App() {
     }
   };
 
-  const handleCreatePR = async () => {
-    const authToken = import.meta.env.VITE_GITHUB_TOKEN || token;
-    if (!pullRequestPlan || !selectedRepo || !authToken) return;
+  // copy prototype assets and include the manifest edit for any packages the
+  // proposed files import
+  const preparePlan = (generated: IntegrationPlan) => {
+    if (!llmRequest) return generated;
 
-    setIsPRCreating(true);
+    const framework = llmRequest.targetRepo.framework;
+    const plan = relocatePublicAssets(
+      generated,
+      llmRequest.prototypeFiles,
+      analysis ? { ...framework, root: analysis.projectRoot } : framework
+    );
+    if (!targetManifests) return plan;
+    return applyDependencyReport(
+      plan,
+      reconcileDependencies({
+        files: plan.pullRequest.files,
+        prototypeFiles: llmRequest.prototypeFiles,
+        entries: llmRequest.targetRepo.structure,
+        manifests: targetManifests,
+      })
+    );
+  };
+
+  const handleAddDependencies = async () => {
+    if (!pullRequestPlan || !dependencyReport?.workspace) return;
+    setPullRequestPlan(
+      applyDependencyReport(pullRequestPlan, dependencyReport)
+    );
+    const path = dependencyReport.workspace.path;
+    if (!(path in originalContents)) {
+      const contents = await loadOriginalContents([path]);
+      setOriginalContents((current) => ({ ...current, ...contents }));
+    }
+  };
+
+  const handleRefinePlan = async (feedback: string) => {
+    if (!pullRequestPlan || !llmRequest) return;
+
+    setIsRefining(true);
+    setRefineError(null);
     try {
-      const [owner, repo] = selectedRepo.split('/');
-      const baseBranch = import.meta.env.VITE_GITHUB_PR_BRANCH || 'main';
+      // refine the plan as shown, including any manual edits
+      const targetRepo = {
+        ...llmRequest.targetRepo,
+        analysis: analysis ?? undefined,
+      };
+      const refined = await refineIntegrationPlan(
+        pullRequestPlan,
+        feedback,
+        feedbackHistory(revisions, activeRevision),
+        llmRequest.prototypeFiles,
+        targetRepo,
+        { settings: modelSettings }
+      );
+      const refinedPlan = preparePlan(refined);
+      const repaired = await repairRevisions(refinedPlan, {
+        parent: revisions.length,
+        start: revisions.length + 1,
+        targetRepo,
+      });
+      const plan = repaired.length
+        ? repaired[repaired.length - 1].plan
+        : refinedPlan;
+
+      setRevisions((current) => [
+        ...current,
+        {
+          plan: refinedPlan,
+          feedback,
+          parent: activeRevision,
+          model: {
+            provider: modelSettings.provider,
+            model: modelSettings.model,
+          },
+          createdAt: new Date().toISOString(),
+        },
+        ...repaired,
+      ]);
+      setActiveRevision(revisions.length + repaired.length);
+      setPullRequestPlan(plan);
+      setExcludedFiles([]);
+
+      const missing = plan.pullRequest.files
+        .map(sourcePath)
+        .filter((path) => !(path in originalContents));
+      if (missing.length > 0) {
+        const contents = await loadOriginalContents(missing);
+        setOriginalContents((current) => ({ ...current, ...contents }));
+      }
+    } catch (error) {
+      setRefineError(
+        error instanceof Error ? error.message : 'Failed to revise the plan'
+      );
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleRestoreRevision = (index: number) => {
+    setPullRequestPlan(revisions[index].plan);
+    setActiveRevision(index);
+    setExcludedFiles([]);
+  };
+
+  const updatePlanFile = (
+    index: number,
+    changes: Partial<IntegrationPlan['pullRequest']['files'][number]>
+  ) => {
+    setPullRequestPlan((plan) =>
+      plan
+        ? {
+            ...plan,
+            pullRequest: {
+              ...plan.pullRequest,
+              files: plan.pullRequest.files.map((file, i) =>
+                i === index ? { ...file, ...changes } : file
+              ),
+            },
+          }
+        : plan
+    );
+  };
+
+  const handleMoveFile = async (index: number, path: string) => {
+    setPullRequestPlan((plan) => {
+      if (!plan) return plan;
+      const from = plan.pullRequest.files[index].path;
+      const moved = renameCommitFile(plan, from, path);
+      return {
+        ...moved,
+        pullRequest: {
+          ...moved.pullRequest,
+          files: moved.pullRequest.files.map((file, i) =>
+            i === index ? { ...file, path } : file
+          ),
+        },
+      };
+    });
+    if (!(path in originalContents)) {
+      const contents = await loadOriginalContents([path]);
+      setOriginalContents((current) => ({ ...current, ...contents }));
+    }
+  };
+
+  const toggleFileExcluded = (index: number) => {
+    setExcludedFiles((current) =>
+      current.includes(index)
+        ? current.filter((i) => i !== index)
+        : [...current, index]
+    );
+  };
+
+  const handlePrModeChange = async (mode: PullRequestMode) => {
+    const authToken = import.meta.env.VITE_GITHUB_TOKEN || token;
+    setPrMode(mode);
+    if (mode !== 'update' || !llmRequest || !authToken) return;
 
-      const { url } = await createPullRequest({
+    const [owner, repo] = llmRequest.targetRepo.name.split('/');
+    setIsLoadingPullRequests(true);
+    try {
+      const pullRequests = await fetchProtoJamPullRequests({
         owner,
         repo,
-        plan: pullRequestPlan,
-        baseBranch,
         token: authToken,
       });
+      setOpenPullRequests(pullRequests);
+      setUpdatePullNumber((current) =>
+        pullRequests.some((pullRequest) => pullRequest.number === current)
+          ? current
+          : pullRequests[0]?.number ?? null
+      );
+    } catch (error) {
+      console.error('Failed to list pull requests:', error);
+      setOpenPullRequests([]);
+      setUpdatePullNumber(null);
+    } finally {
+      setIsLoadingPullRequests(false);
+    }
+  };
+
+  const describePullRequestResult = (result: PullRequestResult) => {
+    if (prMode === 'update') {
+      return `Pushed the planned commits to ${result.branch} and updated the pull request.`;
+    }
+    if (result.outcome === 'renamed') {
+      return `${result.requestedBranch} already existed, so the pull request was opened from ${result.branch}.`;
+    }
+    if (result.outcome === 'fast-forwarded') {
+      return `Added the planned commits on top of the existing ${result.branch} branch.`;
+    }
+    return 'Pull request created successfully!';
+  };
+
+  const handleCreatePR = async (resolution?: BranchConflictResolution) => {
+    const authToken = import.meta.env.VITE_GITHUB_TOKEN || token;
+    if (!includedPlan || !prMetadata || !llmRequest || !authToken) return;
+    if (prMode === 'update' && updatePullNumber === null) return;
+
+    setIsPRCreating(true);
+    setBranchConflict(null);
+    try {
+      const [owner, repo] = llmRequest.targetRepo.name.split('/');
+
+      const result =
+        prMode === 'update' && updatePullNumber !== null
+          ? await updatePullRequest({
+              owner,
+              repo,
+              plan: includedPlan,
+              pullNumber: updatePullNumber,
+              metadata: prMetadata,
+              options: prOptions,
+              token: authToken,
+            })
+          : await createPullRequest({
+              owner,
+              repo,
+              plan: includedPlan,
+              baseBranch: llmRequest.targetRepo.branch,
+              baseSha: llmRequest.targetRepo.ref,
+              branchName: prBranchName.trim() || undefined,
+              onBranchConflict: resolution,
+              metadata: prMetadata,
+              options: prOptions,
+              token: authToken,
+            });
 
-      setPrUrl(url);
+      setPrUrl(result.url);
+      setSessionPullRequests((current) => [
+        ...current,
+        {
+          url: result.url,
+          number: result.number,
+          branch: result.branch,
+          outcome: result.outcome,
+          createdAt: new Date().toISOString(),
+        },
+      ]);
       setUploadState({
         status: 'success',
-        message: 'Pull request created successfully!',
+        message: [describePullRequestResult(result), ...result.warnings].join(
+          ' '
+        ),
       });
     } catch (error: any) {
-      let errorMessage = 'Failed to create pull request. ';
+      if (error instanceof BranchConflictError) {
+        // the user picks how to continue in the pull request panel
+        setBranchConflict(error.conflict);
+        setUploadState({ status: 'idle' });
+        return;
+      }
+
+      let errorMessage =
+        prMode === 'update'
+          ? 'Failed to update pull request. '
+          : 'Failed to create pull request. ';
       if (error.status === 403) {
         errorMessage +=
           'Please ensure your token has full repository access (repo scope).';
@@ -559,6 +1795,14 @@ function App() {
             </p>
           </div>
 
+          <SessionHistoryPanel
+            sessions={sessions}
+            activeSessionId={session?.id ?? null}
+            onOpen={handleOpenSession}
+            onDuplicate={handleDuplicateSession}
+            onDelete={handleDeleteSession}
+          />
+
           {!showPRPreview ? (
             <div className='bg-gray-800 rounded-lg p-8 shadow-xl'>
               <div className='space-y-6'>
@@ -667,10 +1911,7 @@ function App() {
                             {repositories.map((repo) => (
                               <button
                                 key={repo.full_name}
-                                onClick={() => {
-                                  setSelectedRepo(repo.full_name);
-                                  setShowRepoDropdown(false);
-                                }}
+                                onClick={() => handleSelectRepository(repo)}
                                 className='w-full px-4 py-3 text-left hover:bg-gray-600 flex items-center justify-between'
                               >
                                 <div>
@@ -693,6 +1934,35 @@ function App() {
                       </div>
                     </div>
 
+                    {selectedRepo && (
+                      <div>
+                        <label className='block text-sm font-medium mb-2'>
+                          Base Branch
+                        </label>
+                        <select
+                          value={baseBranch}
+                          onChange={(e) =>
+                            handleBaseBranchChange(e.target.value)
+                          }
+                          disabled={
+                            uploadState.status === 'processing' ||
+                            uploadState.status === 'uploading'
+                          }
+                          className='w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500'
+                        >
+                          {branches.map((branch) => (
+                            <option key={branch} value={branch}>
+                              {branch}
+                            </option>
+                          ))}
+                        </select>
+                        <p className='mt-1 text-sm text-gray-400'>
+                          The repository is analyzed at this branch and the pull
+                          request is opened against it
+                        </p>
+                      </div>
+                    )}
+
                     <div>
                       <label className='block text-sm font-medium mb-2'>
                         Prototype Name
@@ -711,12 +1981,45 @@ function App() {
                     </div>
 
                     <div>
-                      <label className='block text-sm font-medium mb-2'>
-                        Prototype Source
-                      </label>
-                      <div
-                        {...getRootProps()}
-                        className={`
+                      <div className='flex items-center justify-between mb-2'>
+                        <label className='block text-sm font-medium'>
+                          Prototype Source
+                        </label>
+                        <div className='flex space-x-1'>
+                          {(
+                            [
+                              ['upload', 'Upload'],
+                              ['github', 'GitHub'],
+                              ['gist', 'Gist'],
+                              ['url', 'URL'],
+                            ] as const
+                          ).map(([kind, label]) => (
+                            <button
+                              key={kind}
+                              type='button'
+                              onClick={() => setSourceKind(kind)}
+                              className={`px-2 py-1 text-xs rounded ${
+                                sourceKind === kind
+                                  ? 'bg-gray-600 text-white'
+                                  : 'text-gray-400 hover:text-gray-300'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {sourceKind !== 'upload' ? (
+                        <RemoteSourceForm
+                          key={sourceKind}
+                          kind={sourceKind}
+                          isLoading={uploadState.status === 'uploading'}
+                          onImport={handleRemoteImport}
+                        />
+                      ) : (
+                        <div
+                          {...getRootProps()}
+                          className={`
                         border-2 border-dashed rounded-lg p-6 text-center cursor-pointer
                         transition-colors duration-200
                         ${
@@ -725,16 +2028,114 @@ function App() {
                             : 'border-gray-600 hover:border-gray-500'
                         }
                       `}
-                      >
-                        <input {...getInputProps()} />
-                        <Upload className='mx-auto h-12 w-12 text-gray-400 mb-4' />
-                        <p className='text-gray-400'>
-                          {isDragActive
-                            ? 'Drop your prototype files here'
-                            : 'Drag & drop your prototype files, or click to browse'}
+                        >
+                          <input {...getInputProps()} />
+                          <Upload className='mx-auto h-12 w-12 text-gray-400 mb-4' />
+                          <p className='text-gray-400'>
+                            {isDragActive
+                              ? 'Drop your prototype files here'
+                              : 'Drag & drop your prototype files, or click to browse'}
+                          </p>
+                        </div>
+                      )}
+                      <label className='mt-2 inline-flex items-center text-sm text-gray-400 hover:text-gray-300 cursor-pointer'>
+                        <FileUp className='h-4 w-4 mr-1' />
+                        Import a shared plan
+                        <input
+                          type='file'
+                          accept='.json,application/json'
+                          className='hidden'
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            // the same file can be picked again after a failure
+                            e.target.value = '';
+                            if (file) handleImportBundle(file);
+                          }}
+                        />
+                      </label>
+                    </div>
+
+                    {uploadSummary && (
+                      <UploadSummaryPanel
+                        summary={uploadSummary}
+                        filters={uploadFilters}
+                        isProcessing={
+                          uploadState.status === 'processing' ||
+                          uploadState.status === 'uploading'
+                        }
+                        onToggleEntry={handleToggleUploadEntry}
+                        onFiltersChange={handleUploadFiltersChange}
+                      />
+                    )}
+
+                    <ModelSettingsPanel
+                      settings={modelSettings}
+                      onChange={setModelSettings}
+                    />
+
+                    {llmRequest && (
+                      <div className='p-4 bg-gray-700/50 rounded-lg text-sm'>
+                        <div className='flex items-center justify-between'>
+                          <span className='font-medium'>Target framework</span>
+                          <div className='flex items-center space-x-2'>
+                            {llmRequest.targetRepo.framework.version && (
+                              <span className='text-gray-400 font-mono'>
+                                {llmRequest.targetRepo.framework.version}
+                              </span>
+                            )}
+                            <select
+                              value={llmRequest.targetRepo.framework.id}
+                              onChange={(e) =>
+                                handleFrameworkChange(
+                                  e.target.value as FrameworkId
+                                )
+                              }
+                              disabled={uploadState.status === 'processing'}
+                              className='px-2 py-1 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500'
+                            >
+                              {frameworkStrategies.map((strategy) => (
+                                <option key={strategy.id} value={strategy.id}>
+                                  {strategy.label}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                        <p className='mt-1 text-gray-400'>
+                          {llmRequest.targetRepo.framework.routerType} routes in{' '}
+                          <span className='font-mono'>
+                            {llmRequest.targetRepo.framework.routesDirectory}
+                          </span>{' '}
+                          ({llmRequest.targetRepo.framework.evidence.join(', ')}
+                          )
                         </p>
                       </div>
-                    </div>
+                    )}
+
+                    {tokenEstimate && (
+                      <div className='p-4 bg-gray-700/50 rounded-lg text-sm'>
+                        <div className='flex items-center justify-between'>
+                          <span className='font-medium'>
+                            Estimated prompt size
+                          </span>
+                          <span
+                            className={`font-mono ${
+                              tokenEstimate.strategy === 'chunked'
+                                ? 'text-amber-400'
+                                : 'text-gray-300'
+                            }`}
+                          >
+                            ~{tokenEstimate.promptTokens.toLocaleString()} /{' '}
+                            {tokenEstimate.budget.toLocaleString()} tokens
+                          </span>
+                        </div>
+                        <p className='mt-1 text-gray-400'>
+                          {tokenEstimate.strategy === 'single-pass'
+                            ? 'Fits in a single request.'
+                            : `Too large for a single request. The prototype will be summarized in ${tokenEstimate.chunks} chunks, planned from the summaries, then generated one file at a time.`}
+                        </p>
+                      </div>
+                    )}
 
                     <button
                       onClick={handleSubmit}
@@ -767,6 +2168,8 @@ function App() {
                               ? 'Uploading...'
                               : uploadState.phase === 'analyzing'
                               ? 'Analyzing Codebases...'
+                              : uploadState.phase === 'planning'
+                              ? 'Planning Pull Request...'
                               : uploadState.phase === 'generating'
                               ? 'Generating Plan...'
                               : 'Processing...'}
@@ -780,6 +2183,22 @@ function App() {
                       )}
                     </button>
 
+                    {uploadState.status === 'processing' &&
+                      uploadState.message && (
+                        <p className='text-sm text-gray-400 text-center'>
+                          {uploadState.message}
+                        </p>
+                      )}
+
+                    {generation && (
+                      <GenerationProgress
+                        startedAt={generation.startedAt}
+                        usage={generation.usage}
+                        plan={generation.plan}
+                        onCancel={handleCancelGeneration}
+                      />
+                    )}
+
                     {uploadState.status === 'success' && (
                       <div className='mt-4 p-4 bg-green-500/20 border border-green-500/30 rounded-lg text-green-400'>
                         {uploadState.message}
@@ -798,6 +2217,18 @@ function App() {
                         {uploadState.message}
                       </div>
                     )}
+
+                    {analysis && llmRequest && (
+                      <AnalysisReview
+                        analysis={analysis}
+                        strategy={getFrameworkStrategy(
+                          llmRequest.targetRepo.framework.id
+                        )}
+                        isGenerating={uploadState.status === 'processing'}
+                        onChange={setAnalysis}
+                        onGenerate={handleGeneratePlan}
+                      />
+                    )}
                   </>
                 )}
               </div>
@@ -877,20 +2308,146 @@ function App() {
                   </div>
 
                   <div className='border-t border-gray-700 pt-6'>
-                    <h3 className='text-lg font-semibold mb-4'>
-                      Proposed Changes
-                    </h3>
+                    <div className='flex items-center justify-between mb-4'>
+                      <h3 className='text-lg font-semibold'>
+                        Proposed Changes
+                      </h3>
+                      <div className='flex items-center space-x-4 text-sm'>
+                        <span className='text-gray-400'>
+                          {fileChanges.length} files{' '}
+                          <span className='text-green-400'>
+                            +{changeTotals.additions}
+                          </span>{' '}
+                          <span className='text-red-400'>
+                            -{changeTotals.deletions}
+                          </span>
+                        </span>
+                        <div className='flex rounded bg-gray-700 p-0.5'>
+                          {(['unified', 'split'] as const).map((mode) => (
+                            <button
+                              key={mode}
+                              onClick={() => setDiffViewMode(mode)}
+                              className={`px-2 py-0.5 rounded capitalize ${
+                                diffViewMode === mode
+                                  ? 'bg-gray-600 text-white'
+                                  : 'text-gray-400'
+                              }`}
+                            >
+                              {mode}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                    <div className='mb-4'>
+                      <ValidationSummary
+                        diagnostics={diagnostics}
+                        isValidating={isValidating}
+                        error={validationError}
+                        isRepairing={isRepairing}
+                        repairError={repairError}
+                        onRepair={
+                          (modelSettings.repairRounds ?? 0) > 0
+                            ? handleRepairPlan
+                            : undefined
+                        }
+                      />
+                    </div>
                     <div className='space-y-4 max-h-[600px] overflow-y-auto'>
-                      {pullRequestPlan?.pullRequest.files?.map(
-                        (file, index) => (
-                          <FileChangePreview
-                            key={`${file.path}-${index}`}
-                            file={file}
-                          />
-                        )
-                      )}
+                      {fileChanges.map((file, index) => (
+                        <FileChangePreview
+                          key={index}
+                          file={file}
+                          viewMode={diffViewMode}
+                          included={!excludedFiles.includes(index)}
+                          diagnostics={diagnostics?.filter(
+                            (diagnostic) => diagnostic.path === file.path
+                          )}
+                          onToggleIncluded={() => toggleFileExcluded(index)}
+                          onContentChange={(content) =>
+                            updatePlanFile(index, { content })
+                          }
+                          onPathChange={(path) => handleMoveFile(index, path)}
+                        />
+                      ))}
                     </div>
                   </div>
+
+                  {dependencyReport && pullRequestPlan && (
+                    <DependencyReportPanel
+                      report={dependencyReport}
+                      pending={pendingAdditions(
+                        pullRequestPlan,
+                        dependencyReport
+                      )}
+                      onAddDependencies={handleAddDependencies}
+                    />
+                  )}
+
+                  <PlanRefinementPanel
+                    revisions={revisions}
+                    activeRevision={activeRevision}
+                    isRefining={isRefining || isRepairing}
+                    error={refineError}
+                    onRefine={handleRefinePlan}
+                    onRestore={handleRestoreRevision}
+                  />
+
+                  <CommitPlanPanel
+                    groups={commitGroups}
+                    issues={commitIssues}
+                  />
+
+                  <PlanExportPanel
+                    binaryCount={
+                      includedPlan?.pullRequest.files.filter(
+                        (file) => file.encoding === 'base64'
+                      ).length ?? 0
+                    }
+                    error={exportError}
+                    staleCommit={staleCommit ?? undefined}
+                    importedModel={
+                      importedModelSettings &&
+                      (importedModelSettings.provider !==
+                        modelSettings.provider ||
+                        importedModelSettings.model !== modelSettings.model)
+                        ? {
+                            provider:
+                              providerRegistry[importedModelSettings.provider]
+                                .label,
+                            model: importedModelSettings.model,
+                            changesProvider:
+                              importedModelSettings.provider !==
+                              modelSettings.provider,
+                          }
+                        : undefined
+                    }
+                    onApplyImportedModel={handleApplyImportedModel}
+                    onExport={handleExport}
+                  />
+
+                  <PullRequestModePicker
+                    mode={prMode}
+                    pullRequests={openPullRequests}
+                    selectedNumber={updatePullNumber}
+                    isLoading={isLoadingPullRequests}
+                    branchName={prBranchName}
+                    conflict={branchConflict}
+                    isSubmitting={isPRCreating}
+                    onModeChange={handlePrModeChange}
+                    onSelect={setUpdatePullNumber}
+                    onBranchNameChange={(branchName) => {
+                      setPrBranchName(branchName);
+                      setBranchConflict(null);
+                    }}
+                    onResolveConflict={handleCreatePR}
+                  />
+
+                  <PullRequestOptionsPanel
+                    options={prOptions}
+                    showDraft={prMode === 'create'}
+                    onChange={setPrOptions}
+                  />
                 </div>
 
                 <div className='flex justify-between'>
@@ -901,32 +2458,56 @@ function App() {
                     Back
                   </button>
                   <button
-                    onClick={handleCreatePR}
-                    disabled={isPRCreating}
+                    onClick={() => handleCreatePR()}
+                    disabled={
+                      isPRCreating ||
+                      excludedFiles.length === fileChanges.length ||
+                      (prMode === 'update' && updatePullNumber === null)
+                    }
                     className={`
                       px-6 py-2 rounded-lg font-medium bg-blue-500 hover:bg-blue-600 
                       transition-colors flex items-center space-x-2
-                      ${isPRCreating ? 'opacity-75 cursor-not-allowed' : ''}
+                      ${
+                        isPRCreating ||
+                        excludedFiles.length === fileChanges.length ||
+                        (prMode === 'update' && updatePullNumber === null)
+                          ? 'opacity-75 cursor-not-allowed'
+                          : ''
+                      }
                     `}
                   >
                     {isPRCreating ? (
                       <>
                         <Loader2 className='h-5 w-5 animate-spin' />
-                        <span>Creating PR...</span>
+                        <span>
+                          {prMode === 'update'
+                            ? 'Updating PR...'
+                            : 'Creating PR...'}
+                        </span>
                       </>
                     ) : (
                       <>
                         <GitPullRequest className='h-5 w-5' />
-                        <span>Create Pull Request</span>
+                        <span>
+                          {prMode === 'update'
+                            ? 'Update Pull Request'
+                            : 'Create Pull Request'}
+                        </span>
                       </>
                     )}
                   </button>
                 </div>
 
-                {prUrl && (
+                {uploadState.status === 'error' && (
+                  <div className='mt-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400'>
+                    {uploadState.message}
+                  </div>
+                )}
+
+                {prUrl && uploadState.status === 'success' && (
                   <div className='mt-4 p-4 bg-green-500/20 border border-green-500/30 rounded-lg'>
                     <p className='text-green-400'>
-                      Pull request created successfully!{' '}
+                      {uploadState.message}{' '}
                       <a
                         href={prUrl}
                         target='_blank'
@@ -943,7 +2524,10 @@ function App() {
           )}
 
           <div className='mt-8 text-center text-sm text-gray-400'>
-            <p>Currently supports NextJS + Tailwind prototypes</p>
+            <p>
+              Currently supports NextJS + Tailwind prototypes, integrated into
+              Next.js, Remix, Vite + React Router, SvelteKit and Astro apps
+            </p>
             <div className='flex items-center justify-center mt-2 space-x-2'>
               <Code2 className='h-4 w-4' />
               <span>Automated code analysis and PR generation</span>
@@ -0,0 +1,202 @@
+import { GitPullRequest, Loader2, ScanSearch } from 'lucide-react';
+import type { DirectoryAnalysis } from '../utils/llm';
+import type { FrameworkStrategy } from '../utils/frameworks';
+
+const inputClassName =
+  'w-full px-3 py-1.5 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm';
+
+// lists are edited one item per line, blank lines are dropped before use
+function ListField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}) {
+  return (
+    <div>
+      <label className='block text-sm font-medium mb-1'>{label}</label>
+      <textarea
+        value={value.join('\n')}
+        onChange={(e) => onChange(e.target.value.split('\n'))}
+        rows={Math.min(Math.max(value.length, 2), 6)}
+        className={`${inputClassName} font-mono`}
+      />
+    </div>
+  );
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  mono = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  mono?: boolean;
+}) {
+  return (
+    <div>
+      <label className='block text-sm font-medium mb-1'>{label}</label>
+      <input
+        type='text'
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClassName} ${mono ? 'font-mono' : ''}`}
+      />
+    </div>
+  );
+}
+
+function labelFor(key: string) {
+  return key
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (char) => char.toUpperCase());
+}
+
+export function AnalysisReview({
+  analysis,
+  strategy,
+  isGenerating,
+  onChange,
+  onGenerate,
+}: {
+  analysis: DirectoryAnalysis;
+  strategy: FrameworkStrategy;
+  isGenerating: boolean;
+  onChange: (analysis: DirectoryAnalysis) => void;
+  onGenerate: () => void;
+}) {
+  const update = (changes: Partial<DirectoryAnalysis>) =>
+    onChange({ ...analysis, ...changes });
+  const updateCompatibility = (
+    changes: Partial<DirectoryAnalysis['compatibility']>
+  ) => update({ compatibility: { ...analysis.compatibility, ...changes } });
+  const updateDetail = (key: string, value: unknown) =>
+    update({
+      frameworkDetails: { ...analysis.frameworkDetails, [key]: value },
+    });
+
+  return (
+    <div className='p-4 border border-gray-700 rounded-lg space-y-4'>
+      <div>
+        <h3 className='font-medium flex items-center'>
+          <ScanSearch className='h-4 w-4 mr-2 text-gray-400' />
+          Review Analysis
+        </h3>
+        <p className='text-sm text-gray-400 mt-1'>
+          Correct anything that was misread, the plan is generated from these
+          values.
+        </p>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+        <TextField
+          label='Project root'
+          value={analysis.projectRoot}
+          onChange={(projectRoot) => update({ projectRoot })}
+          mono
+        />
+        <TextField
+          label='Routes directory'
+          value={analysis.routesDirectory}
+          onChange={(routesDirectory) => update({ routesDirectory })}
+          mono
+        />
+        <div>
+          <label className='block text-sm font-medium mb-1'>Router type</label>
+          <select
+            value={analysis.routerType}
+            onChange={(e) => update({ routerType: e.target.value })}
+            className={inputClassName}
+          >
+            {strategy.routerTypes.map((routerType) => (
+              <option key={routerType} value={routerType}>
+                {routerType}
+              </option>
+            ))}
+          </select>
+        </div>
+        <TextField
+          label='Route'
+          value={analysis.prototypePath}
+          onChange={(prototypePath) => update({ prototypePath })}
+          mono
+        />
+        <TextField
+          label='Styling'
+          value={analysis.compatibility.styling}
+          onChange={(styling) => updateCompatibility({ styling })}
+        />
+        <TextField
+          label={`${strategy.label} version`}
+          value={analysis.compatibility.frameworkVersion}
+          onChange={(frameworkVersion) =>
+            updateCompatibility({ frameworkVersion })
+          }
+        />
+        {Object.entries(analysis.frameworkDetails).map(([key, value]) =>
+          typeof value === 'boolean' ? (
+            <label key={key} className='flex items-center space-x-2 text-sm'>
+              <input
+                type='checkbox'
+                checked={value}
+                onChange={(e) => updateDetail(key, e.target.checked)}
+                className='h-4 w-4 rounded border-gray-600 bg-gray-700'
+              />
+              <span className='font-medium'>{labelFor(key)}</span>
+            </label>
+          ) : Array.isArray(value) ? (
+            <ListField
+              key={key}
+              label={labelFor(key)}
+              value={value.map(String)}
+              onChange={(items) => updateDetail(key, items)}
+            />
+          ) : (
+            <TextField
+              key={key}
+              label={labelFor(key)}
+              value={String(value ?? '')}
+              onChange={(text) => updateDetail(key, text)}
+              mono
+            />
+          )
+        )}
+      </div>
+
+      <ListField
+        label='Dependencies'
+        value={analysis.compatibility.dependencies}
+        onChange={(dependencies) => updateCompatibility({ dependencies })}
+      />
+      <ListField
+        label='Recommendations'
+        value={analysis.recommendations}
+        onChange={(recommendations) => update({ recommendations })}
+      />
+
+      <button
+        onClick={onGenerate}
+        disabled={isGenerating}
+        className='w-full py-3 px-4 rounded-lg font-medium flex items-center justify-center space-x-2 bg-blue-500 hover:bg-blue-600 transition-colors disabled:bg-blue-600/50 disabled:cursor-not-allowed'
+      >
+        {isGenerating ? (
+          <>
+            <Loader2 className='h-5 w-5 animate-spin' />
+            <span>Generating Plan...</span>
+          </>
+        ) : (
+          <>
+            <GitPullRequest className='h-5 w-5' />
+            <span>Generate Plan</span>
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-markup';
+import 'prismjs/components/prism-css';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/themes/prism-tomorrow.css';
+
+const languagesByExtension: Record<string, string> = {
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'jsx',
+  json: 'json',
+  css: 'css',
+  html: 'markup',
+  svg: 'markup',
+  md: 'markdown',
+  mdx: 'markdown',
+};
+
+function languageForPath(path: string): string | undefined {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return languagesByExtension[extension];
+}
+
+function highlight(code: string, language?: string) {
+  const grammar = language ? Prism.languages[language] : undefined;
+  if (!grammar || !language) {
+    // plain text still needs escaping, the editor renders this as HTML
+    return code
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+  return Prism.highlight(code, grammar, language);
+}
+
+export function CodeEditor({
+  path,
+  value,
+  onChange,
+}: {
+  path: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const language = languageForPath(path);
+
+  return (
+    <div className='rounded border border-gray-700 bg-gray-950 max-h-[480px] overflow-auto'>
+      <Editor
+        value={value}
+        onValueChange={onChange}
+        highlight={(code) => highlight(code, language)}
+        padding={12}
+        tabSize={2}
+        insertSpaces
+        textareaClassName='focus:outline-none'
+        className='text-sm font-mono min-h-[120px]'
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { GitCommit } from 'lucide-react';
+import type { CommitGroup, CommitPlanIssues } from '../utils/commits';
+
+function IssueNote({ label, paths }: { label: string; paths: string[] }) {
+  if (paths.length === 0) return null;
+  return (
+    <p className='mt-3 text-sm text-amber-400'>
+      {label}: <span className='font-mono'>{paths.join(', ')}</span>
+    </p>
+  );
+}
+
+export function CommitPlanPanel({
+  groups,
+  issues,
+}: {
+  groups: CommitGroup[];
+  issues?: CommitPlanIssues | null;
+}) {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className='border-t border-gray-700 pt-6'>
+      <h3 className='text-lg font-semibold mb-4 flex items-center'>
+        <GitCommit className='h-5 w-5 mr-2 text-gray-400' />
+        Commits
+        <span className='ml-2 text-sm font-normal text-gray-400'>
+          {groups.length} {groups.length === 1 ? 'commit' : 'commits'}, in order
+        </span>
+      </h3>
+      <ol className='space-y-3'>
+        {groups.map((group, index) => (
+          <li key={`${index}-${group.message}`} className='text-sm'>
+            <div className='flex items-baseline'>
+              <span className='w-6 text-gray-500'>{index + 1}.</span>
+              <span className='font-medium text-gray-200'>{group.message}</span>
+              <span className='ml-2 text-gray-400'>
+                {group.files.length}{' '}
+                {group.files.length === 1 ? 'file' : 'files'}
+              </span>
+            </div>
+            <ul className='ml-6 mt-1 space-y-0.5 text-xs font-mono text-gray-400'>
+              {group.files.map((file) => (
+                <li key={file.path} className='truncate'>
+                  {file.operation === 'delete' ? '- ' : ''}
+                  {file.path}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+
+      {issues && (
+        <>
+          <IssueNote
+            label='Planned more than once, keep one of them before committing'
+            paths={issues.duplicateFiles}
+          />
+          <IssueNote
+            label='Listed in more than one commit, the first one commits them'
+            paths={issues.duplicateCommitPaths}
+          />
+          <IssueNote
+            label="Listed in a commit but not among the plan's files"
+            paths={issues.unmatchedCommitPaths}
+          />
+        </>
+      )}
+    </div>
+  );
+}
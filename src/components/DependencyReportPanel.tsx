@@ -0,0 +1,158 @@
+import { Package, PackagePlus } from 'lucide-react';
+import {
+  UNVERSIONED_RANGE,
+  type DependencyCheck,
+  type DependencyReport,
+} from '../utils/dependencies';
+
+function StatusBadge({
+  check,
+  pending,
+}: {
+  check: DependencyCheck;
+  pending: boolean;
+}) {
+  if (check.status === 'present') {
+    return (
+      <span className='text-xs px-2 py-0.5 rounded bg-gray-600/50 text-gray-300'>
+        Already installed
+      </span>
+    );
+  }
+  if (check.status === 'conflict') {
+    return (
+      <span className='text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400'>
+        Version conflict
+      </span>
+    );
+  }
+  if (check.status === 'unversioned') {
+    return (
+      <span className='text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400'>
+        Version unknown
+      </span>
+    );
+  }
+  if (check.status === 'workspace') {
+    return (
+      <span className='text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-400'>
+        Workspace package
+      </span>
+    );
+  }
+  return pending ? (
+    <span className='text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-400'>
+      Missing
+    </span>
+  ) : (
+    <span className='text-xs px-2 py-0.5 rounded bg-green-500/20 text-green-400'>
+      Added
+    </span>
+  );
+}
+
+export function DependencyReportPanel({
+  report,
+  pending,
+  onAddDependencies,
+}: {
+  report: DependencyReport;
+  // additions not yet in the plan's package.json
+  pending: Record<string, string>;
+  onAddDependencies: () => void;
+}) {
+  const pendingCount = Object.keys(pending).length;
+
+  return (
+    <div className='border-t border-gray-700 pt-6'>
+      <div className='flex items-center justify-between mb-4'>
+        <h3 className='text-lg font-semibold flex items-center'>
+          <Package className='h-5 w-5 mr-2 text-gray-400' />
+          Dependencies
+        </h3>
+        {report.workspace && (
+          <span className='text-sm text-gray-400'>
+            {report.workspace.name || 'package'} ·{' '}
+            <span className='font-mono'>{report.workspace.path}</span> ·{' '}
+            {report.packageManager}
+          </span>
+        )}
+      </div>
+
+      {report.checks.length === 0 ? (
+        <p className='text-sm text-gray-400'>
+          The proposed files don't import any packages.
+        </p>
+      ) : (
+        <table className='w-full text-sm'>
+          <tbody>
+            {report.checks.map((check) => (
+              <tr key={check.name} className='border-b border-gray-700/50'>
+                <td className='py-2 font-mono'>{check.name}</td>
+                <td className='py-2'>
+                  <StatusBadge check={check} pending={check.name in pending} />
+                </td>
+                <td className='py-2 text-gray-400 font-mono'>
+                  {check.status === 'conflict'
+                    ? `prototype ${check.requested}, target ${check.installed}`
+                    : check.installed ||
+                      report.additions[check.name] ||
+                      check.requested}
+                </td>
+                <td
+                  className='py-2 text-gray-400 text-right'
+                  title={check.importedBy.join('\n')}
+                >
+                  {check.importedBy.length}{' '}
+                  {check.importedBy.length === 1 ? 'file' : 'files'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!report.workspace && report.checks.length > 0 && (
+        <p className='mt-3 text-sm text-amber-400'>
+          No package.json found in the target repository, dependencies have to
+          be added by hand.
+        </p>
+      )}
+
+      {report.addCommand && (
+        <p className='mt-3 text-sm text-amber-400'>
+          The prototype doesn't say which version of{' '}
+          {report.checks
+            .filter((check) => check.status === 'unversioned')
+            .map((check) => check.name)
+            .join(', ')}{' '}
+          it used, so they're added as{' '}
+          <code className='font-mono'>{UNVERSIONED_RANGE}</code>. Review them
+          before merging, and run{' '}
+          <code className='font-mono'>{report.addCommand}</code> on the branch
+          to pin their versions.
+        </p>
+      )}
+
+      {report.workspace && pendingCount > 0 && (
+        <button
+          onClick={onAddDependencies}
+          className='mt-3 px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 flex items-center space-x-1'
+        >
+          <PackagePlus className='h-4 w-4' />
+          <span>
+            Add {pendingCount} missing{' '}
+            {pendingCount === 1 ? 'package' : 'packages'} to package.json
+          </span>
+        </button>
+      )}
+
+      {Object.keys(report.additions).length > 0 && (
+        <p className='mt-3 text-sm text-gray-400'>
+          Run <code className='font-mono'>{report.installCommand}</code> after
+          checking out the branch to update the lockfile.
+        </p>
+      )}
+    </div>
+  );
+}
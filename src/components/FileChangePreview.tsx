@@ -0,0 +1,469 @@
+import React, { Fragment, useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  FileCode,
+  FolderInput,
+  Minus,
+  Plus,
+} from 'lucide-react';
+import { buildHunks, diffLines, type DiffLine } from '../utils/diff';
+import type { FileMode, FileOperation } from '../utils/llm';
+import { countDiagnostics, type FileDiagnostic } from '../utils/validation';
+import { CodeEditor } from './CodeEditor';
+
+export interface FileChange {
+  path: string;
+  additions: number;
+  deletions: number;
+  content: string;
+  encoding?: 'base64';
+  // null when the file is new, undefined when it couldn't be fetched
+  originalContent?: string | null;
+  originalPath?: string;
+  changes?: string[];
+  operation?: FileOperation;
+  // the path a renamed file is moved from
+  previousPath?: string;
+  mode?: FileMode;
+}
+
+export type DiffViewMode = 'unified' | 'split';
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+};
+
+function BinaryPreview({ file }: { file: FileChange }) {
+  const extension = file.path.split('.').pop()?.toLowerCase() || '';
+  const type = IMAGE_TYPES[extension];
+  const bytes = Math.floor((file.content.length * 3) / 4);
+
+  return (
+    <div className='space-y-2'>
+      <p className='text-sm text-gray-400'>
+        Binary file, {bytes.toLocaleString()} bytes
+      </p>
+      {type && (
+        <img
+          src={`data:${type};base64,${file.content}`}
+          alt={file.path}
+          className='max-h-64 rounded border border-gray-700 bg-gray-800'
+        />
+      )}
+    </div>
+  );
+}
+
+function OperationBadge({ file }: { file: FileChange }) {
+  const badgeClassName = 'text-xs px-2 py-0.5 rounded';
+
+  if (file.operation === 'delete') {
+    return (
+      <span className={`${badgeClassName} bg-red-500/20 text-red-400`}>
+        Delete
+      </span>
+    );
+  }
+  if (file.operation === 'rename') {
+    return (
+      <span className={`${badgeClassName} bg-blue-500/20 text-blue-400`}>
+        Rename
+      </span>
+    );
+  }
+  if (file.originalContent === null) {
+    return (
+      <span className={`${badgeClassName} bg-green-500/20 text-green-400`}>
+        New
+      </span>
+    );
+  }
+  if (typeof file.originalContent !== 'string') return null;
+  // a file planned as new that already exists is replaced wholesale
+  return file.operation === 'modify' ? (
+    <span className={`${badgeClassName} bg-amber-500/20 text-amber-400`}>
+      Modify
+    </span>
+  ) : (
+    <span className={`${badgeClassName} bg-purple-500/20 text-purple-400`}>
+      Overwrites existing
+    </span>
+  );
+}
+
+function DiagnosticBadge({ diagnostics }: { diagnostics: FileDiagnostic[] }) {
+  const { errors, warnings } = countDiagnostics(diagnostics);
+  if (errors === 0 && warnings === 0) return null;
+
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded flex items-center ${
+        errors ? 'bg-red-500/20 text-red-400' : 'bg-amber-500/20 text-amber-400'
+      }`}
+    >
+      <AlertCircle className='h-3 w-3 mr-1' />
+      {errors || warnings}
+    </span>
+  );
+}
+
+function DiagnosticList({ diagnostics }: { diagnostics: FileDiagnostic[] }) {
+  return (
+    <ul className='mb-4 space-y-1 text-sm'>
+      {diagnostics.map((diagnostic, index) => (
+        <li
+          key={index}
+          className={`flex items-start ${
+            diagnostic.severity === 'error' ? 'text-red-400' : 'text-amber-400'
+          }`}
+        >
+          {diagnostic.severity === 'error' ? (
+            <AlertCircle className='h-4 w-4 mr-2 mt-0.5 shrink-0' />
+          ) : (
+            <AlertTriangle className='h-4 w-4 mr-2 mt-0.5 shrink-0' />
+          )}
+          <span>
+            <span className='font-mono text-gray-400'>
+              {diagnostic.line}:{diagnostic.column}
+            </span>{' '}
+            <span className='whitespace-pre-wrap'>{diagnostic.message}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const lineClassNames: Record<DiffLine['type'], string> = {
+  add: 'bg-green-500/10 text-green-300',
+  remove: 'bg-red-500/10 text-red-300',
+  context: 'text-gray-300',
+};
+
+const linePrefixes: Record<DiffLine['type'], string> = {
+  add: '+',
+  remove: '-',
+  context: ' ',
+};
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className='select-none px-2 text-right text-gray-500 w-12 align-top'>
+      {value ?? ''}
+    </td>
+  );
+}
+
+function HunkHeader({ label, colSpan }: { label: string; colSpan: number }) {
+  return (
+    <tr className='bg-blue-500/10 text-blue-300'>
+      <td colSpan={colSpan} className='px-2 py-1'>
+        {label}
+      </td>
+    </tr>
+  );
+}
+
+function UnifiedDiff({ lines }: { lines: DiffLine[] }) {
+  const hunks = buildHunks(lines);
+
+  return (
+    <table className='w-full text-sm font-mono border-collapse'>
+      <tbody>
+        {hunks.map((hunk, hunkIndex) => (
+          <Fragment key={hunkIndex}>
+            <HunkHeader
+              colSpan={3}
+              label={`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+            />
+            {hunk.lines.map((line, index) => (
+              <tr key={index} className={lineClassNames[line.type]}>
+                <LineNumber value={line.oldLine} />
+                <LineNumber value={line.newLine} />
+                <td className='px-2 whitespace-pre'>
+                  {linePrefixes[line.type]}
+                  {line.content}
+                </td>
+              </tr>
+            ))}
+          </Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// pair removed and added lines so modifications line up side by side
+function toSplitRows(lines: DiffLine[]) {
+  const rows: Array<{ left?: DiffLine; right?: DiffLine }> = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i += 1) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.type === 'remove') {
+      removed.push(line);
+    } else if (line.type === 'add') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+function SplitDiff({ lines }: { lines: DiffLine[] }) {
+  const hunks = buildHunks(lines);
+
+  return (
+    <table className='w-full text-sm font-mono border-collapse table-fixed'>
+      <tbody>
+        {hunks.map((hunk, hunkIndex) => (
+          <Fragment key={hunkIndex}>
+            <HunkHeader
+              colSpan={4}
+              label={`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+            />
+            {toSplitRows(hunk.lines).map(({ left, right }, index) => (
+              <tr key={index}>
+                <LineNumber value={left?.oldLine} />
+                <td
+                  className={`px-2 whitespace-pre overflow-hidden ${
+                    left ? lineClassNames[left.type] : ''
+                  }`}
+                >
+                  {left?.content}
+                </td>
+                <LineNumber value={right?.newLine} />
+                <td
+                  className={`px-2 whitespace-pre overflow-hidden ${
+                    right ? lineClassNames[right.type] : ''
+                  }`}
+                >
+                  {right?.content}
+                </td>
+              </tr>
+            ))}
+          </Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function FileChangePreview({
+  file,
+  viewMode = 'unified',
+  included = true,
+  diagnostics = [],
+  onToggleIncluded,
+  onContentChange,
+  onPathChange,
+}: {
+  file: FileChange;
+  viewMode?: DiffViewMode;
+  included?: boolean;
+  // type errors and unresolved imports from the last check
+  diagnostics?: FileDiagnostic[];
+  onToggleIncluded?: () => void;
+  onContentChange?: (content: string) => void;
+  onPathChange?: (path: string) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [tab, setTab] = useState<'diff' | 'edit'>('diff');
+  const [targetPath, setTargetPath] = useState(file.path);
+  const isBinary = file.encoding === 'base64';
+  const lines = useMemo(
+    () => (isBinary ? [] : diffLines(file.originalContent ?? '', file.content)),
+    [isBinary, file.originalContent, file.content]
+  );
+  const isDeleted = file.operation === 'delete';
+  const isEditable =
+    !isBinary && !isDeleted && Boolean(onContentChange || onPathChange);
+
+  useEffect(() => {
+    setTargetPath(file.path);
+  }, [file.path]);
+
+  const handleMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    const path = targetPath.trim().replace(/^\/+/, '');
+    if (path && path !== file.path) {
+      onPathChange?.(path);
+    }
+  };
+
+  return (
+    <div
+      className={`border border-gray-700 rounded-lg overflow-hidden ${
+        included ? '' : 'opacity-60'
+      }`}
+    >
+      <div className='flex items-center bg-gray-800'>
+        {onToggleIncluded && (
+          <label
+            className='pl-4 flex items-center cursor-pointer'
+            title={included ? 'Exclude from commit' : 'Include in commit'}
+          >
+            <input
+              type='checkbox'
+              checked={included}
+              onChange={onToggleIncluded}
+              className='h-4 w-4 rounded border-gray-600 bg-gray-700'
+            />
+          </label>
+        )}
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className='flex-1 px-4 py-3 flex items-center justify-between hover:bg-gray-750 transition-colors'
+        >
+          <div className='flex items-center space-x-3'>
+            <FileCode className='h-4 w-4 text-gray-400' />
+            <div className='text-left'>
+              <span
+                className={`text-sm font-medium ${
+                  included ? '' : 'line-through'
+                }`}
+              >
+                {file.path}
+              </span>
+              {file.originalPath && (
+                <div className='text-xs text-amber-400'>
+                  Original: {file.originalPath}
+                </div>
+              )}
+              {file.operation === 'rename' && file.previousPath && (
+                <div className='text-xs text-blue-400 font-mono'>
+                  from {file.previousPath}
+                </div>
+              )}
+            </div>
+            <OperationBadge file={file} />
+            <DiagnosticBadge diagnostics={diagnostics} />
+            {file.mode === '100755' && (
+              <span className='text-xs px-2 py-0.5 rounded bg-gray-600/50 text-gray-300 font-mono'>
+                +x
+              </span>
+            )}
+          </div>
+          <div className='flex items-center space-x-4'>
+            <span className='text-sm text-green-400 flex items-center'>
+              <Plus className='h-3 w-3 mr-1' />
+              {file.additions}
+            </span>
+            <span className='text-sm text-red-400 flex items-center'>
+              <Minus className='h-3 w-3 mr-1' />
+              {file.deletions}
+            </span>
+            {isExpanded ? (
+              <ChevronDown className='h-4 w-4 text-gray-400' />
+            ) : (
+              <ChevronRight className='h-4 w-4 text-gray-400' />
+            )}
+          </div>
+        </button>
+      </div>
+      {isExpanded && (
+        <div className='bg-gray-900 p-4'>
+          {diagnostics.length > 0 && (
+            <DiagnosticList diagnostics={diagnostics} />
+          )}
+          {file.changes && file.changes.length > 0 && (
+            <div className='mb-4 text-sm text-gray-300'>
+              <h4 className='font-medium mb-2'>Required Changes:</h4>
+              <ul className='list-disc list-inside space-y-1'>
+                {file.changes.map((change, index) => (
+                  <li key={index}>{change}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {onPathChange && !isDeleted && (
+            <form
+              onSubmit={handleMove}
+              className='mb-4 flex items-center space-x-2'
+            >
+              <input
+                type='text'
+                value={targetPath}
+                onChange={(e) => setTargetPath(e.target.value)}
+                className='flex-1 px-3 py-1.5 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm font-mono'
+              />
+              <button
+                type='submit'
+                disabled={!targetPath.trim() || targetPath === file.path}
+                className='px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1'
+              >
+                <FolderInput className='h-4 w-4' />
+                <span>Move</span>
+              </button>
+            </form>
+          )}
+          {isEditable && (
+            <div className='mb-4 flex rounded bg-gray-800 p-0.5 w-fit text-sm'>
+              {(['diff', 'edit'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-0.5 rounded capitalize ${
+                    tab === value ? 'bg-gray-600 text-white' : 'text-gray-400'
+                  }`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          )}
+          {isBinary ? (
+            <BinaryPreview file={file} />
+          ) : tab === 'edit' && onContentChange ? (
+            <CodeEditor
+              path={file.path}
+              value={file.content}
+              onChange={onContentChange}
+            />
+          ) : (
+            <>
+              {file.originalContent === undefined && (
+                <p className='mb-4 text-sm text-amber-400'>
+                  Current content of this file could not be loaded, showing it
+                  as a new file.
+                </p>
+              )}
+              <div className='overflow-x-auto'>
+                {lines.length === 0 ||
+                lines.every((line) => line.type === 'context') ? (
+                  <p className='text-sm text-gray-400'>No changes</p>
+                ) : viewMode === 'split' ? (
+                  <SplitDiff lines={lines} />
+                ) : (
+                  <UnifiedDiff lines={lines} />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
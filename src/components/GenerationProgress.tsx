@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Clock, FileCode, Loader2, X } from 'lucide-react';
+import type { PartialIntegrationPlan, TokenUsage } from '../utils/llm';
+
+// lines of the file being written that stay visible while it streams
+const TAIL_LINES = 12;
+
+function formatElapsed(milliseconds: number) {
+  const seconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes
+    ? `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+    : `${seconds}s`;
+}
+
+function useElapsed(startedAt: number) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return Math.max(0, now - startedAt);
+}
+
+export function GenerationProgress({
+  startedAt,
+  usage,
+  plan,
+  onCancel,
+}: {
+  startedAt: number;
+  usage: TokenUsage | null;
+  // null until the first part of the plan arrived
+  plan: PartialIntegrationPlan | null;
+  onCancel: () => void;
+}) {
+  const elapsed = useElapsed(startedAt);
+  const steps = (plan?.integrationSteps || []).filter(Boolean);
+  const files = (plan?.pullRequest?.files || []).filter((file) => file?.path);
+  // the last file with any content is the one being written
+  const writing = [...files].reverse().find((file) => file?.content);
+
+  return (
+    <div className='p-4 rounded-lg border border-gray-700 bg-gray-900 space-y-4 text-sm'>
+      <div className='flex items-center justify-between'>
+        <div className='flex items-center space-x-4 text-gray-400'>
+          <span className='flex items-center'>
+            <Clock className='h-4 w-4 mr-1' />
+            {formatElapsed(elapsed)}
+          </span>
+          {usage && (
+            <span className='font-mono text-xs'>
+              {usage.promptTokens.toLocaleString()} in ·{' '}
+              {usage.completionTokens.toLocaleString()} out tokens
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onCancel}
+          className='px-3 py-1 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors flex items-center'
+        >
+          <X className='h-4 w-4 mr-1' />
+          Cancel
+        </button>
+      </div>
+
+      {steps.length > 0 && (
+        <div>
+          <h4 className='font-medium mb-2'>Integration Steps</h4>
+          <ol className='list-decimal list-inside space-y-1 text-gray-300'>
+            {steps.map((step, index) => (
+              <li key={index}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div>
+          <h4 className='font-medium mb-2'>Files</h4>
+          <ul className='space-y-1 font-mono text-xs'>
+            {files.map((file, index) => (
+              <li key={index} className='flex items-center text-gray-300'>
+                <FileCode className='h-4 w-4 mr-2 text-gray-400 shrink-0' />
+                <span className='truncate'>{file!.path}</span>
+                {file === writing ? (
+                  <Loader2 className='h-3 w-3 ml-2 animate-spin text-blue-400 shrink-0' />
+                ) : file?.content ? (
+                  <span className='ml-2 text-gray-500'>
+                    {file.content.split('\n').length} lines
+                  </span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          {writing?.content && (
+            <pre className='mt-2 p-2 rounded bg-gray-800 text-xs text-gray-400 overflow-x-auto'>
+              {writing.content.split('\n').slice(-TAIL_LINES).join('\n')}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Settings } from 'lucide-react';
+import {
+  getModelCapabilities,
+  providerRegistry,
+  type ModelSettings,
+  type ProviderId,
+  type ReasoningEffort,
+} from '../utils/providers';
+
+const inputClassName =
+  'w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+export function ModelSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const provider = providerRegistry[settings.provider];
+  const capabilities = getModelCapabilities(settings.provider, settings.model);
+
+  const handleProviderChange = (providerId: ProviderId) => {
+    onChange({
+      ...settings,
+      provider: providerId,
+      model: providerRegistry[providerId].defaultModel,
+      baseURL: undefined,
+    });
+  };
+
+  return (
+    <div className='border border-gray-700 rounded-lg'>
+      <button
+        type='button'
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='w-full px-4 py-3 flex items-center justify-between text-left'
+      >
+        <div className='flex items-center space-x-2'>
+          <Settings className='h-4 w-4 text-gray-400' />
+          <span className='text-sm font-medium'>Model</span>
+          <span className='text-sm text-gray-400'>
+            {provider.label} · {settings.model}
+          </span>
+        </div>
+        {isExpanded ? (
+          <ChevronDown className='h-4 w-4 text-gray-400' />
+        ) : (
+          <ChevronRight className='h-4 w-4 text-gray-400' />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className='px-4 pb-4 space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+            <div>
+              <label className='block text-sm font-medium mb-2'>Provider</label>
+              <select
+                value={settings.provider}
+                onChange={(e) =>
+                  handleProviderChange(e.target.value as ProviderId)
+                }
+                className={inputClassName}
+              >
+                {Object.entries(providerRegistry).map(([id, definition]) => (
+                  <option key={id} value={id}>
+                    {definition.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-sm font-medium mb-2'>
+                {settings.provider === 'azure' ? 'Deployment' : 'Model'}
+              </label>
+              <input
+                type='text'
+                list='model-suggestions'
+                value={settings.model}
+                onChange={(e) =>
+                  onChange({ ...settings, model: e.target.value })
+                }
+                className={inputClassName}
+              />
+              <datalist id='model-suggestions'>
+                {provider.models.map((model) => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {provider.baseURLLabel && (
+            <div>
+              <label className='block text-sm font-medium mb-2'>
+                {provider.baseURLLabel}
+              </label>
+              <input
+                type='text'
+                value={settings.baseURL || ''}
+                onChange={(e) =>
+                  onChange({ ...settings, baseURL: e.target.value })
+                }
+                placeholder={provider.baseURLPlaceholder}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className='block text-sm font-medium mb-2'>
+              API Key{' '}
+              <span className='text-gray-400 font-normal'>
+                {provider.apiKeyRequired
+                  ? '(defaults to the key in your .env)'
+                  : '(optional)'}
+              </span>
+            </label>
+            <input
+              type='password'
+              value={settings.apiKey || ''}
+              onChange={(e) =>
+                onChange({ ...settings, apiKey: e.target.value })
+              }
+              className={inputClassName}
+            />
+          </div>
+
+          {capabilities.reasoningEffort && (
+            <div>
+              <label className='block text-sm font-medium mb-2'>
+                Reasoning Effort
+              </label>
+              <select
+                value={settings.reasoningEffort || 'medium'}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    reasoningEffort: e.target.value as ReasoningEffort,
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value='low'>Low</option>
+                <option value='medium'>Medium</option>
+                <option value='high'>High</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className='block text-sm font-medium mb-2'>
+              Repair Rounds
+            </label>
+            <input
+              type='number'
+              min={0}
+              max={5}
+              value={settings.repairRounds ?? 0}
+              onChange={(e) =>
+                onChange({
+                  ...settings,
+                  repairRounds: Math.min(
+                    5,
+                    Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  ),
+                })
+              }
+              className={inputClassName}
+            />
+            <p className='mt-1 text-xs text-gray-400'>
+              How many times the model may fix type errors and unresolved
+              imports in the generated files, 0 to turn it off
+            </p>
+          </div>
+
+          <div className='flex flex-wrap gap-2 text-xs'>
+            <span
+              className={`px-2 py-1 rounded ${
+                capabilities.structuredOutputs
+                  ? 'bg-green-500/20 text-green-400'
+                  : 'bg-gray-700 text-gray-400'
+              }`}
+            >
+              {capabilities.structuredOutputs
+                ? 'Structured outputs'
+                : 'JSON mode / tool calls'}
+            </span>
+            {capabilities.reasoningEffort && (
+              <span className='px-2 py-1 rounded bg-blue-500/20 text-blue-400'>
+                Reasoning model
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import {
+  AlertCircle,
+  Download,
+  FileArchive,
+  FileDiff,
+  Package,
+} from 'lucide-react';
+
+export type PlanExportKind = 'bundle' | 'patch' | 'zip';
+
+export function PlanExportPanel({
+  binaryCount,
+  error,
+  staleCommit,
+  importedModel,
+  onApplyImportedModel,
+  onExport,
+}: {
+  // binary files can't go into a text patch
+  binaryCount: number;
+  error: string | null;
+  // set when an imported plan was made from an older commit than the one indexed
+  staleCommit?: { branch: string; bundleSha: string; currentSha: string };
+  // the model an imported plan was generated with, when it isn't the one in use
+  importedModel?: { provider: string; model: string; changesProvider: boolean };
+  onApplyImportedModel: () => void;
+  onExport: (kind: PlanExportKind) => void;
+}) {
+  return (
+    <div className='border-t border-gray-700 pt-6'>
+      <h3 className='text-lg font-semibold mb-2 flex items-center'>
+        <Download className='h-5 w-5 mr-2 text-gray-400' />
+        Export
+      </h3>
+      <p className='text-sm text-gray-400 mb-4'>
+        Share the plan without opening a pull request. The bundle imports back
+        into ProtoJam, the patch applies with <code>git am</code>.
+      </p>
+
+      {staleCommit && (
+        <div className='mb-4 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-400'>
+          This plan was generated against{' '}
+          <code>{staleCommit.bundleSha.slice(0, 7)}</code>, {staleCommit.branch}{' '}
+          is now at <code>{staleCommit.currentSha.slice(0, 7)}</code>. Diffs and
+          the pull request use the current commit.
+        </div>
+      )}
+
+      {importedModel && (
+        <div className='mb-4 p-3 rounded-lg bg-gray-700/50 border border-gray-600 text-sm text-gray-300'>
+          <p>
+            This plan was generated with {importedModel.provider} /{' '}
+            <code>{importedModel.model}</code>. Refining and repairs use your
+            current model settings.
+          </p>
+          <button
+            onClick={onApplyImportedModel}
+            className='mt-2 px-3 py-1.5 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors'
+          >
+            Use {importedModel.model}
+          </button>
+          {importedModel.changesProvider && (
+            <p className='mt-2 text-xs text-gray-400'>
+              Switching to {importedModel.provider} needs its API key in the
+              model settings.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className='flex flex-wrap gap-2'>
+        <button
+          onClick={() => onExport('bundle')}
+          className='px-3 py-1.5 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors flex items-center'
+        >
+          <Package className='h-4 w-4 mr-2' />
+          Plan bundle
+        </button>
+        <button
+          onClick={() => onExport('patch')}
+          className='px-3 py-1.5 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors flex items-center'
+        >
+          <FileDiff className='h-4 w-4 mr-2' />
+          Patch
+        </button>
+        <button
+          onClick={() => onExport('zip')}
+          className='px-3 py-1.5 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors flex items-center'
+        >
+          <FileArchive className='h-4 w-4 mr-2' />
+          Files as zip
+        </button>
+      </div>
+
+      {binaryCount > 0 && (
+        <p className='mt-2 text-xs text-gray-400'>
+          The patch leaves out {binaryCount} binary{' '}
+          {binaryCount === 1 ? 'file' : 'files'}, the zip has them.
+        </p>
+      )}
+
+      {error && (
+        <div className='mt-3 flex items-center text-sm text-red-400'>
+          <AlertCircle className='h-4 w-4 mr-2 shrink-0' />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
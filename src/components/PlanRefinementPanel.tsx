@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import {
+  History,
+  Loader2,
+  MessageSquare,
+  RotateCcw,
+  Send,
+  Wrench,
+} from 'lucide-react';
+import {
+  comparePlans,
+  hasChanges,
+  type PlanRevision,
+} from '../utils/planRevisions';
+import type { RepairRound } from '../utils/repair';
+
+function RevisionChanges({
+  revision,
+  parent,
+}: {
+  revision: PlanRevision;
+  parent: PlanRevision;
+}) {
+  const comparison = comparePlans(parent.plan, revision.plan);
+
+  if (!hasChanges(comparison)) {
+    return <p className='text-xs text-gray-400'>No changes to the plan.</p>;
+  }
+
+  return (
+    <ul className='text-xs space-y-0.5 font-mono'>
+      {comparison.titleChanged && (
+        <li className='text-gray-300'>
+          ~ title: {revision.plan.pullRequest.title}
+        </li>
+      )}
+      {comparison.routeChanged && (
+        <li className='text-gray-300'>
+          ~ route: {parent.plan.pullRequest.route} →{' '}
+          {revision.plan.pullRequest.route}
+        </li>
+      )}
+      {comparison.targetDirectoryChanged && (
+        <li className='text-gray-300'>
+          ~ target directory: {revision.plan.targetDirectory}
+        </li>
+      )}
+      {comparison.stepsChanged && (
+        <li className='text-gray-300'>~ integration steps updated</li>
+      )}
+      {comparison.addedFiles.map((path) => (
+        <li key={`added-${path}`} className='text-green-400'>
+          + {path}
+        </li>
+      ))}
+      {comparison.removedFiles.map((path) => (
+        <li key={`removed-${path}`} className='text-red-400'>
+          - {path}
+        </li>
+      ))}
+      {comparison.modifiedFiles.map((file) => (
+        <li key={`modified-${file.path}`} className='text-amber-400'>
+          ~ {file.path}{' '}
+          <span className='text-green-400'>+{file.additions}</span>{' '}
+          <span className='text-red-400'>-{file.deletions}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function RepairNote({ round }: { round: RepairRound }) {
+  const fixed = round.diagnostics.length - round.remaining.length;
+
+  return (
+    <div className='ml-12 p-3 rounded-lg bg-amber-500/10 text-sm text-gray-200 space-y-1'>
+      <div className='font-medium flex items-center'>
+        <Wrench className='h-4 w-4 mr-1 text-amber-400' />
+        Automatic repair, round {round.round}
+      </div>
+      <p className='text-xs text-gray-400'>
+        {round.diagnostics.length}{' '}
+        {round.diagnostics.length === 1 ? 'error' : 'errors'} sent to the
+        model, {Math.max(0, fixed)} fixed, {round.remaining.length} left
+      </p>
+      <ul className='text-xs space-y-0.5'>
+        {round.changes.map((change) => (
+          <li key={change.path}>
+            <span className='font-mono text-gray-300'>{change.path}</span>:{' '}
+            {change.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function PlanRefinementPanel({
+  revisions,
+  activeRevision,
+  isRefining,
+  error,
+  onRefine,
+  onRestore,
+}: {
+  revisions: PlanRevision[];
+  activeRevision: number;
+  isRefining: boolean;
+  error?: string | null;
+  onRefine: (feedback: string) => void;
+  onRestore: (index: number) => void;
+}) {
+  const [feedback, setFeedback] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback.trim() || isRefining) return;
+    onRefine(feedback.trim());
+    setFeedback('');
+  };
+
+  return (
+    <div className='border-t border-gray-700 pt-6'>
+      <h3 className='text-lg font-semibold mb-4 flex items-center'>
+        <MessageSquare className='h-5 w-5 mr-2 text-gray-400' />
+        Refine Plan
+      </h3>
+
+      <div className='space-y-3 max-h-[360px] overflow-y-auto mb-4'>
+        {revisions.map((revision, index) => (
+          <div key={index} className='space-y-2'>
+            {revision.repair && <RepairNote round={revision.repair} />}
+            {revision.feedback && (
+              <div className='ml-12 p-3 rounded-lg bg-blue-500/20 text-sm text-gray-200 whitespace-pre-wrap'>
+                {revision.feedback}
+              </div>
+            )}
+            <div
+              className={`mr-12 p-3 rounded-lg border text-sm ${
+                index === activeRevision
+                  ? 'border-blue-500/50 bg-gray-900'
+                  : 'border-gray-700 bg-gray-900/50'
+              }`}
+            >
+              <div className='flex items-center justify-between mb-1'>
+                <span className='font-medium flex items-center'>
+                  <History className='h-4 w-4 mr-1 text-gray-400' />
+                  Revision {index + 1}
+                  {index === activeRevision && (
+                    <span className='ml-2 text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-400'>
+                      Current
+                    </span>
+                  )}
+                </span>
+                {index !== activeRevision && (
+                  <button
+                    onClick={() => onRestore(index)}
+                    disabled={isRefining}
+                    className='text-xs text-gray-400 hover:text-white flex items-center disabled:opacity-50'
+                  >
+                    <RotateCcw className='h-3 w-3 mr-1' />
+                    Roll back
+                  </button>
+                )}
+              </div>
+              {revision.parent !== undefined && revisions[revision.parent] ? (
+                <RevisionChanges
+                  revision={revision}
+                  parent={revisions[revision.parent]}
+                />
+              ) : (
+                <p className='text-xs text-gray-400'>
+                  Generated plan with {revision.plan.pullRequest.files.length}{' '}
+                  files.
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className='mb-4 p-3 rounded-lg bg-red-500/20 border border-red-500/30 text-sm text-red-400'>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className='flex items-end space-x-2'>
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              handleSubmit(e);
+            }
+          }}
+          rows={2}
+          placeholder='e.g., use our existing Button from components/ui, or put it under app/(marketing)'
+          className='flex-1 px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm resize-none'
+        />
+        <button
+          type='submit'
+          disabled={!feedback.trim() || isRefining}
+          className='px-4 py-2 rounded-lg font-medium bg-blue-500 hover:bg-blue-600 transition-colors disabled:bg-blue-600/50 disabled:cursor-not-allowed flex items-center space-x-2'
+        >
+          {isRefining ? (
+            <Loader2 className='h-5 w-5 animate-spin' />
+          ) : (
+            <Send className='h-5 w-5' />
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { AlertTriangle, GitPullRequest, RefreshCw } from 'lucide-react';
+import type {
+  BranchConflict,
+  BranchConflictResolution,
+  ExistingPullRequest,
+} from '../utils/github';
+
+export type PullRequestMode = 'create' | 'update';
+
+function BranchConflictNotice({
+  conflict,
+  disabled,
+  onResolve,
+}: {
+  conflict: BranchConflict;
+  disabled: boolean;
+  onResolve: (resolution: BranchConflictResolution) => void;
+}) {
+  const buttonClassName =
+    'px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 disabled:opacity-50';
+
+  return (
+    <div className='mt-4 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm'>
+      <p className='text-amber-400 flex items-center font-medium'>
+        <AlertTriangle className='h-4 w-4 mr-2' />
+        Branch <span className='font-mono mx-1'>{conflict.branch}</span> already
+        exists
+      </p>
+      {conflict.foreignCommits.length > 0 ? (
+        <>
+          <p className='mt-2 text-gray-300'>
+            It has commits ProtoJam didn't make:
+          </p>
+          <ul className='mt-1 space-y-0.5 text-gray-400'>
+            {conflict.foreignCommits.slice(0, 5).map((commit) => (
+              <li key={commit.sha} className='truncate'>
+                <span className='font-mono'>{commit.sha.slice(0, 7)}</span>{' '}
+                {commit.message}
+                {commit.author && ` (${commit.author})`}
+              </li>
+            ))}
+            {conflict.foreignCommits.length > 5 && (
+              <li>and {conflict.foreignCommits.length - 5} more</li>
+            )}
+            {conflict.uncheckedCommits > 0 && (
+              <li>
+                and {conflict.uncheckedCommits} more commits that couldn't be
+                checked
+              </li>
+            )}
+          </ul>
+        </>
+      ) : conflict.uncheckedCommits > 0 ? (
+        <p className='mt-2 text-gray-300'>
+          It has more commits than GitHub can compare at once, so they couldn't
+          all be checked.
+        </p>
+      ) : (
+        <p className='mt-2 text-gray-300'>
+          Every commit on it was made by ProtoJam.
+        </p>
+      )}
+      <div className='mt-3 flex flex-wrap gap-2'>
+        <button
+          onClick={() => onResolve('new-branch')}
+          disabled={disabled}
+          className={buttonClassName}
+        >
+          Use <span className='font-mono'>{conflict.suggestedBranch}</span>
+        </button>
+        <button
+          onClick={() => onResolve('fast-forward')}
+          disabled={disabled}
+          className={buttonClassName}
+        >
+          Commit on top of the branch
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PullRequestModePicker({
+  mode,
+  pullRequests,
+  selectedNumber,
+  isLoading,
+  branchName,
+  conflict,
+  isSubmitting,
+  onModeChange,
+  onSelect,
+  onBranchNameChange,
+  onResolveConflict,
+}: {
+  mode: PullRequestMode;
+  pullRequests: ExistingPullRequest[];
+  selectedNumber: number | null;
+  isLoading: boolean;
+  branchName: string;
+  conflict: BranchConflict | null;
+  isSubmitting: boolean;
+  onModeChange: (mode: PullRequestMode) => void;
+  onSelect: (pullNumber: number) => void;
+  onBranchNameChange: (branchName: string) => void;
+  onResolveConflict: (resolution: BranchConflictResolution) => void;
+}) {
+  return (
+    <div className='border-t border-gray-700 pt-6'>
+      <div className='flex items-center justify-between mb-4'>
+        <h3 className='text-lg font-semibold flex items-center'>
+          <GitPullRequest className='h-5 w-5 mr-2 text-gray-400' />
+          Pull Request
+        </h3>
+        <div className='flex rounded bg-gray-700 p-0.5 text-sm'>
+          {(
+            [
+              ['create', 'Open new PR'],
+              ['update', 'Update existing PR'],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              className={`px-2 py-0.5 rounded ${
+                mode === value ? 'bg-gray-600 text-white' : 'text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'create' ? (
+        <div>
+          <label className='block text-sm font-medium mb-2'>Branch name</label>
+          <input
+            type='text'
+            value={branchName}
+            onChange={(e) => onBranchNameChange(e.target.value)}
+            placeholder='protojam-<route>-<timestamp>'
+            className='w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 font-mono text-sm'
+          />
+          <p className='mt-1 text-sm text-gray-400'>
+            Existing branches are never overwritten.
+          </p>
+          {conflict && (
+            <BranchConflictNotice
+              conflict={conflict}
+              disabled={isSubmitting}
+              onResolve={onResolveConflict}
+            />
+          )}
+        </div>
+      ) : isLoading ? (
+        <p className='text-sm text-gray-400 flex items-center'>
+          <RefreshCw className='h-4 w-4 mr-2 animate-spin' />
+          Loading open ProtoJam pull requests...
+        </p>
+      ) : pullRequests.length === 0 ? (
+        <p className='text-sm text-gray-400'>
+          There are no open pull requests on protojam- branches in this
+          repository.
+        </p>
+      ) : (
+        <div className='space-y-2'>
+          {pullRequests.map((pullRequest) => (
+            <label
+              key={pullRequest.number}
+              className={`flex items-start p-3 rounded-lg border cursor-pointer ${
+                selectedNumber === pullRequest.number
+                  ? 'border-blue-500 bg-blue-500/10'
+                  : 'border-gray-700 hover:border-gray-600'
+              }`}
+            >
+              <input
+                type='radio'
+                name='existing-pull-request'
+                checked={selectedNumber === pullRequest.number}
+                onChange={() => onSelect(pullRequest.number)}
+                className='mt-1 mr-3'
+              />
+              <div className='min-w-0'>
+                <div className='font-medium text-gray-200'>
+                  #{pullRequest.number} {pullRequest.title}
+                </div>
+                <div className='text-sm text-gray-400 font-mono truncate'>
+                  {pullRequest.branch} → {pullRequest.baseBranch}
+                </div>
+                <div className='text-xs text-gray-500'>
+                  Updated {new Date(pullRequest.updatedAt).toLocaleString()}
+                </div>
+              </div>
+            </label>
+          ))}
+          <p className='text-sm text-gray-400'>
+            New commits are pushed on top of the branch, its history is kept.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
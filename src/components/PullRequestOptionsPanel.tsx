@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import type { PullRequestOptions } from '../utils/pullRequestDetails';
+
+const inputClassName =
+  'w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm';
+
+type ListField = 'reviewers' | 'labels' | 'assignees';
+
+const fields: Array<{ key: ListField; label: string; placeholder: string }> = [
+  { key: 'reviewers', label: 'Reviewers', placeholder: 'octocat, my-org/team' },
+  { key: 'labels', label: 'Labels', placeholder: 'prototype, needs-review' },
+  { key: 'assignees', label: 'Assignees', placeholder: 'octocat' },
+];
+
+// the inputs work in comma separated text
+function toDraft(options: PullRequestOptions): Record<ListField, string> {
+  return {
+    reviewers: options.reviewers.join(', '),
+    labels: options.labels.join(', '),
+    assignees: options.assignees.join(', '),
+  };
+}
+
+function toList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+export function PullRequestOptionsPanel({
+  options,
+  showDraft,
+  onChange,
+}: {
+  options: PullRequestOptions;
+  // an existing pull request keeps its draft state
+  showDraft: boolean;
+  onChange: (options: PullRequestOptions) => void;
+}) {
+  const [draft, setDraft] = useState(() => toDraft(options));
+
+  useEffect(() => {
+    setDraft(toDraft(options));
+  }, [options]);
+
+  return (
+    <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+      {fields.map(({ key, label, placeholder }) => (
+        <div key={key}>
+          <label className='block text-sm font-medium mb-2'>{label}</label>
+          <input
+            type='text'
+            value={draft[key]}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+            onBlur={() => onChange({ ...options, [key]: toList(draft[key]) })}
+            placeholder={placeholder}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      {showDraft && (
+        <label className='md:col-span-3 flex items-center text-sm text-gray-300'>
+          <input
+            type='checkbox'
+            checked={options.draft}
+            onChange={(e) => onChange({ ...options, draft: e.target.checked })}
+            className='mr-2 rounded border-gray-600 bg-gray-700'
+          />
+          Open as a draft pull request
+        </label>
+      )}
+    </div>
+  );
+}
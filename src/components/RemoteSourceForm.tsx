@@ -0,0 +1,94 @@
+import { useState, type FormEvent } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  parseGistSource,
+  parseGitHubSource,
+  parseUrlSource,
+  type RemoteSource,
+  type RemoteSourceKind,
+} from '../utils/remoteSources';
+
+const inputClassName =
+  'w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+const placeholders: Record<RemoteSourceKind, string> = {
+  github: 'owner/repo or https://github.com/owner/repo/tree/main/app',
+  gist: 'Gist ID or https://gist.github.com/user/…',
+  url: 'https://… (zip export or single file)',
+};
+
+export function RemoteSourceForm({
+  kind,
+  isLoading,
+  onImport,
+}: {
+  kind: RemoteSourceKind;
+  isLoading: boolean;
+  onImport: (source: RemoteSource) => void;
+}) {
+  const [location, setLocation] = useState('');
+  const [ref, setRef] = useState('');
+  const [path, setPath] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const source =
+        kind === 'github'
+          ? parseGitHubSource(location, ref, path)
+          : kind === 'gist'
+          ? parseGistSource(location)
+          : parseUrlSource(location);
+      setError(null);
+      onImport(source);
+    } catch (parseError) {
+      setError(
+        parseError instanceof Error ? parseError.message : String(parseError)
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className='space-y-3'>
+      <input
+        type='text'
+        value={location}
+        onChange={(e) => setLocation(e.target.value)}
+        placeholder={placeholders[kind]}
+        className={inputClassName}
+      />
+      {kind === 'github' && (
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-3'>
+          <input
+            type='text'
+            value={ref}
+            onChange={(e) => setRef(e.target.value)}
+            placeholder='Branch (default branch)'
+            className={inputClassName}
+          />
+          <input
+            type='text'
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            placeholder='Subfolder (repository root)'
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {error && <p className='text-sm text-red-400'>{error}</p>}
+      <button
+        type='submit'
+        disabled={!location.trim() || isLoading}
+        className='px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 disabled:opacity-50 flex items-center space-x-1'
+      >
+        {isLoading ? (
+          <Loader2 className='h-4 w-4 animate-spin' />
+        ) : (
+          <Download className='h-4 w-4' />
+        )}
+        <span>Import</span>
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  ExternalLink,
+  FolderOpen,
+  History,
+  Trash2,
+} from 'lucide-react';
+import type { SessionSummary } from '../utils/sessions';
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export function SessionHistoryPanel({
+  sessions,
+  activeSessionId,
+  onOpen,
+  onDuplicate,
+  onDelete,
+}: {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className='bg-gray-800 rounded-lg shadow-xl mb-6'>
+      <button
+        type='button'
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='w-full px-4 py-3 flex items-center justify-between text-left'
+      >
+        <div className='flex items-center space-x-2'>
+          <History className='h-4 w-4 text-gray-400' />
+          <span className='text-sm font-medium'>Past Integrations</span>
+          <span className='text-sm text-gray-400'>{sessions.length}</span>
+        </div>
+        {isExpanded ? (
+          <ChevronDown className='h-4 w-4 text-gray-400' />
+        ) : (
+          <ChevronRight className='h-4 w-4 text-gray-400' />
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className='px-4 pb-4 space-y-2 max-h-[360px] overflow-y-auto'>
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={`p-3 rounded-lg border text-sm ${
+                session.id === activeSessionId
+                  ? 'border-blue-500/50 bg-gray-900'
+                  : 'border-gray-700 bg-gray-900/50'
+              }`}
+            >
+              <div className='flex items-start justify-between'>
+                <div className='min-w-0'>
+                  <div className='font-medium truncate'>
+                    {session.name || 'Untitled prototype'}
+                    {session.id === activeSessionId && (
+                      <span className='ml-2 text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-400'>
+                        Open
+                      </span>
+                    )}
+                  </div>
+                  <div className='text-xs text-gray-400 mt-1'>
+                    {session.repository || 'No repository'}
+                    {session.baseBranch && ` · ${session.baseBranch}`} ·{' '}
+                    {session.fileCount
+                      ? `${session.fileCount} ${
+                          session.fileCount === 1 ? 'file' : 'files'
+                        }, ${session.revisionCount} ${
+                          session.revisionCount === 1 ? 'revision' : 'revisions'
+                        }`
+                      : 'no plan yet'}{' '}
+                    · {formatDate(session.updatedAt)}
+                  </div>
+                  {session.pullRequests.length > 0 && (
+                    <ul className='mt-1 space-y-0.5 text-xs'>
+                      {session.pullRequests.map((pullRequest) => (
+                        <li
+                          key={`${pullRequest.number}-${pullRequest.createdAt}`}
+                        >
+                          <a
+                            href={pullRequest.url}
+                            target='_blank'
+                            rel='noopener noreferrer'
+                            className='text-blue-400 hover:text-blue-300 inline-flex items-center'
+                          >
+                            #{pullRequest.number} {pullRequest.branch}
+                            <ExternalLink className='h-3 w-3 ml-1' />
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className='flex items-center space-x-1 ml-4 shrink-0'>
+                  {session.id !== activeSessionId && (
+                    <button
+                      onClick={() => onOpen(session.id)}
+                      title='Reopen'
+                      className='p-1.5 rounded hover:bg-gray-700 text-gray-400 hover:text-white'
+                    >
+                      <FolderOpen className='h-4 w-4' />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDuplicate(session.id)}
+                    title='Duplicate'
+                    className='p-1.5 rounded hover:bg-gray-700 text-gray-400 hover:text-white'
+                  >
+                    <Copy className='h-4 w-4' />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          `Delete ${session.name || 'this integration'}?`
+                        )
+                      ) {
+                        onDelete(session.id);
+                      }
+                    }}
+                    title='Delete'
+                    className='p-1.5 rounded hover:bg-gray-700 text-gray-400 hover:text-red-400'
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
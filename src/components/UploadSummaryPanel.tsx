@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, FolderArchive } from 'lucide-react';
+import type { UploadSummary } from '../utils/zipHandler';
+import {
+  DEFAULT_UPLOAD_FILTERS,
+  formatBytes,
+  type SkipReason,
+  type UploadEntry,
+  type UploadFilterSettings,
+} from '../utils/uploadFilter';
+
+const inputClassName =
+  'w-full px-4 py-2 rounded bg-gray-700 border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+const reasonLabels: Record<SkipReason, string> = {
+  excluded: 'Excluded',
+  'not-included': 'Not included',
+  'too-large': 'Too large',
+  generated: 'Generated',
+  'total-size': 'Over total size',
+  manual: 'Skipped by you',
+};
+
+function EntryDetails({ entry }: { entry: UploadEntry }) {
+  if (entry.count !== undefined) {
+    return (
+      <>
+        {entry.count} {entry.count === 1 ? 'file' : 'files'}
+      </>
+    );
+  }
+  if (entry.size === undefined) return null;
+  return (
+    <>
+      {formatBytes(entry.size)}
+      {entry.binary && ' · binary'}
+    </>
+  );
+}
+
+// the editor works in text, sizes in KB
+function toDraft(filters: UploadFilterSettings) {
+  return {
+    include: filters.include.join('\n'),
+    exclude: filters.exclude.join('\n'),
+    maxFileSize: String(Math.round(filters.maxFileSize / 1024)),
+    maxTotalSize: String(Math.round(filters.maxTotalSize / 1024)),
+  };
+}
+
+function toLines(value: string) {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function UploadSummaryPanel({
+  summary,
+  filters,
+  isProcessing,
+  onToggleEntry,
+  onFiltersChange,
+}: {
+  summary: UploadSummary;
+  filters: UploadFilterSettings;
+  isProcessing: boolean;
+  onToggleEntry: (entry: UploadEntry) => void;
+  onFiltersChange: (filters: UploadFilterSettings) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [draft, setDraft] = useState(() => toDraft(filters));
+
+  useEffect(() => {
+    setDraft(toDraft(filters));
+  }, [filters]);
+
+  const kept = summary.entries.filter((entry) => entry.status === 'kept');
+  const skipped = summary.entries.filter((entry) => entry.status === 'skipped');
+  const skippedCount = skipped.reduce(
+    (total, entry) => total + (entry.count ?? 1),
+    0
+  );
+
+  const handleApply = () => {
+    onFiltersChange({
+      include: toLines(draft.include),
+      exclude: toLines(draft.exclude),
+      maxFileSize:
+        (Number(draft.maxFileSize) ||
+          DEFAULT_UPLOAD_FILTERS.maxFileSize / 1024) * 1024,
+      maxTotalSize:
+        (Number(draft.maxTotalSize) ||
+          DEFAULT_UPLOAD_FILTERS.maxTotalSize / 1024) * 1024,
+    });
+  };
+
+  return (
+    <div className='border border-gray-700 rounded-lg'>
+      <button
+        type='button'
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='w-full px-4 py-3 flex items-center justify-between text-left'
+      >
+        <div className='flex items-center space-x-2'>
+          <FolderArchive className='h-4 w-4 text-gray-400' />
+          <span className='text-sm font-medium'>Uploaded files</span>
+          <span className='text-sm text-gray-400'>
+            {kept.length} kept ({formatBytes(summary.keptSize)}) ·{' '}
+            {skippedCount} skipped
+          </span>
+        </div>
+        {isExpanded ? (
+          <ChevronDown className='h-4 w-4 text-gray-400' />
+        ) : (
+          <ChevronRight className='h-4 w-4 text-gray-400' />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className='px-4 pb-4 space-y-4'>
+          {summary.strippedRoots.length > 0 && (
+            <p className='text-sm text-gray-400'>
+              Removed the wrapping{' '}
+              {summary.strippedRoots.map((root, index) => (
+                <span key={root}>
+                  {index > 0 && ', '}
+                  <span className='font-mono'>{root}/</span>
+                </span>
+              ))}{' '}
+              folder from every path.
+            </p>
+          )}
+
+          <div className='max-h-72 overflow-y-auto'>
+            <table className='w-full text-sm'>
+              <tbody>
+                {[...kept, ...skipped].map((entry) => (
+                  <tr key={entry.path} className='border-b border-gray-700/50'>
+                    <td className='py-1.5 pr-2 w-6'>
+                      <input
+                        type='checkbox'
+                        checked={entry.status === 'kept'}
+                        onChange={() => onToggleEntry(entry)}
+                        disabled={isProcessing}
+                        className='rounded border-gray-600 bg-gray-700'
+                      />
+                    </td>
+                    <td
+                      className={`py-1.5 font-mono break-all ${
+                        entry.status === 'kept'
+                          ? 'text-gray-200'
+                          : 'text-gray-500'
+                      }`}
+                    >
+                      {entry.path}
+                    </td>
+                    <td className='py-1.5 px-2 text-gray-400 whitespace-nowrap text-right'>
+                      <EntryDetails entry={entry} />
+                    </td>
+                    <td className='py-1.5 text-right whitespace-nowrap'>
+                      {entry.reason && (
+                        <span className='text-xs px-2 py-0.5 rounded bg-gray-600/50 text-gray-300'>
+                          {reasonLabels[entry.reason]}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            type='button'
+            onClick={() => setShowSettings(!showSettings)}
+            className='text-sm text-blue-400 hover:text-blue-300'
+          >
+            {showSettings ? 'Hide filters' : 'Edit filters'}
+          </button>
+
+          {showSettings && (
+            <div className='space-y-4'>
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                <div>
+                  <label className='block text-sm font-medium mb-2'>
+                    Include (one glob per line)
+                  </label>
+                  <textarea
+                    value={draft.include}
+                    onChange={(e) =>
+                      setDraft({ ...draft, include: e.target.value })
+                    }
+                    rows={6}
+                    placeholder='Everything'
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                </div>
+                <div>
+                  <label className='block text-sm font-medium mb-2'>
+                    Exclude (one glob per line)
+                  </label>
+                  <textarea
+                    value={draft.exclude}
+                    onChange={(e) =>
+                      setDraft({ ...draft, exclude: e.target.value })
+                    }
+                    rows={6}
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                </div>
+                <div>
+                  <label className='block text-sm font-medium mb-2'>
+                    Max file size (KB)
+                  </label>
+                  <input
+                    type='number'
+                    min={1}
+                    value={draft.maxFileSize}
+                    onChange={(e) =>
+                      setDraft({ ...draft, maxFileSize: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className='block text-sm font-medium mb-2'>
+                    Max total size (KB)
+                  </label>
+                  <input
+                    type='number'
+                    min={1}
+                    value={draft.maxTotalSize}
+                    onChange={(e) =>
+                      setDraft({ ...draft, maxTotalSize: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className='flex items-center space-x-2'>
+                <button
+                  type='button'
+                  onClick={handleApply}
+                  disabled={isProcessing}
+                  className='px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600'
+                >
+                  Apply filters
+                </button>
+                <button
+                  type='button'
+                  onClick={() => onFiltersChange(DEFAULT_UPLOAD_FILTERS)}
+                  disabled={isProcessing}
+                  className='px-3 py-1.5 rounded text-sm text-gray-400 hover:text-gray-300'
+                >
+                  Reset to defaults
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
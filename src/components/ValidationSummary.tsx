@@ -0,0 +1,114 @@
+import { AlertCircle, CheckCircle2, Loader2, Wrench } from 'lucide-react';
+import { countDiagnostics, type FileDiagnostic } from '../utils/validation';
+
+function ValidationStatus({
+  diagnostics,
+  isValidating,
+  error,
+}: {
+  diagnostics: FileDiagnostic[] | null;
+  isValidating: boolean;
+  error: string | null;
+}) {
+  if (isValidating) {
+    return (
+      <p className='text-sm text-gray-400 flex items-center'>
+        <Loader2 className='h-4 w-4 mr-2 animate-spin' />
+        Type-checking the proposed files...
+      </p>
+    );
+  }
+  if (error) {
+    return (
+      <p className='text-sm text-amber-400 flex items-center'>
+        <AlertCircle className='h-4 w-4 mr-2' />
+        The proposed files couldn't be checked: {error}
+      </p>
+    );
+  }
+  if (!diagnostics) return null;
+
+  const { errors, warnings } = countDiagnostics(diagnostics);
+  if (errors === 0 && warnings === 0) {
+    return (
+      <p className='text-sm text-green-400 flex items-center'>
+        <CheckCircle2 className='h-4 w-4 mr-2' />
+        No type errors or unresolved imports
+      </p>
+    );
+  }
+
+  const files = new Set(diagnostics.map((diagnostic) => diagnostic.path)).size;
+  return (
+    <p
+      className={`text-sm flex items-center ${
+        errors ? 'text-red-400' : 'text-amber-400'
+      }`}
+    >
+      <AlertCircle className='h-4 w-4 mr-2' />
+      {[
+        errors && `${errors} ${errors === 1 ? 'error' : 'errors'}`,
+        warnings && `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+      ]
+        .filter(Boolean)
+        .join(', ')}{' '}
+      in {files} {files === 1 ? 'file' : 'files'}, expand a file to see them
+    </p>
+  );
+}
+
+export function ValidationSummary({
+  diagnostics,
+  isValidating,
+  error,
+  isRepairing = false,
+  repairError,
+  onRepair,
+}: {
+  // null until the first check finished
+  diagnostics: FileDiagnostic[] | null;
+  isValidating: boolean;
+  error: string | null;
+  isRepairing?: boolean;
+  repairError?: string | null;
+  // left out when automatic repair is turned off
+  onRepair?: () => void;
+}) {
+  const canRepair =
+    onRepair &&
+    !isValidating &&
+    diagnostics &&
+    countDiagnostics(diagnostics).errors > 0;
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center justify-between'>
+        <ValidationStatus
+          diagnostics={diagnostics}
+          isValidating={isValidating}
+          error={error}
+        />
+        {(canRepair || isRepairing) && (
+          <button
+            onClick={onRepair}
+            disabled={isRepairing}
+            className='px-3 py-1 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 flex items-center'
+          >
+            {isRepairing ? (
+              <Loader2 className='h-4 w-4 mr-1 animate-spin' />
+            ) : (
+              <Wrench className='h-4 w-4 mr-1' />
+            )}
+            {isRepairing ? 'Repairing...' : 'Repair with the model'}
+          </button>
+        )}
+      </div>
+      {repairError && (
+        <p className='text-sm text-red-400 flex items-center'>
+          <AlertCircle className='h-4 w-4 mr-2' />
+          {repairError}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { addCommit } from './commits';
+import { getFrameworkStrategy, type FrameworkDetection } from './frameworks';
+import type { IntegrationPlan, PlanFile, PrototypeFile } from './llm';
+
+export interface RelocatedAsset {
+  from: string;
+  to: string;
+  // URL the prototype used, and the one it's served at in the target
+  originalUrl: string;
+  url: string;
+}
+
+// `public/` at the top of the upload, or one level down when a zip wraps the
+// project in a folder
+const PUBLIC_PATH = /^(?:[^/]+\/)?public\/(.+)$/;
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// assets move under the prototype's route so they can't clash with the target's
+export function planPublicAssets(
+  prototypeFiles: PrototypeFile[],
+  framework: FrameworkDetection,
+  route: string
+): RelocatedAsset[] {
+  const strategy = getFrameworkStrategy(framework.id);
+  const prefix = route.split('/').map(slugify).filter(Boolean).join('/');
+  const urlPrefix = `/${prefix || 'prototype'}`;
+  const staticDirectory = framework.root
+    ? `${framework.root}/${strategy.staticDirectory}`
+    : strategy.staticDirectory;
+
+  return prototypeFiles.flatMap((file) => {
+    const match = file.path.match(PUBLIC_PATH);
+    if (!match) return [];
+    const relativePath = match[1]!;
+    return [
+      {
+        from: file.path,
+        to: `${staticDirectory}${urlPrefix}/${relativePath}`,
+        originalUrl: `/${relativePath}`,
+        url: `${urlPrefix}/${relativePath}`,
+      },
+    ];
+  });
+}
+
+// point string literals, url() and srcset entries at the relocated assets
+export function rewriteAssetReferences(
+  content: string,
+  assets: RelocatedAsset[]
+): string {
+  return assets.reduce(
+    (result, asset) =>
+      result.replace(
+        new RegExp(
+          `(['"\`(\\s=])${escapeRegExp(asset.originalUrl)}(?=['"\`)?#\\s,])`,
+          'g'
+        ),
+        `$1${asset.url}`
+      ),
+    content
+  );
+}
+
+// copy the prototype's public/ files into the target's static directory and
+// rewrite the generated files to match, safe to run again on a revised plan
+export function relocatePublicAssets(
+  plan: IntegrationPlan,
+  prototypeFiles: PrototypeFile[],
+  framework: FrameworkDetection
+): IntegrationPlan {
+  const assets = planPublicAssets(
+    prototypeFiles,
+    framework,
+    plan.pullRequest.route
+  );
+  if (assets.length === 0) return plan;
+
+  const existing = new Set(plan.pullRequest.files.map((file) => file.path));
+  const sources = new Map(prototypeFiles.map((file) => [file.path, file]));
+  // the target's own files keep pointing at its own assets
+  const fromPrototype = (file: PlanFile) =>
+    file.operation === 'create' || sources.has(file.path);
+
+  const relocated: IntegrationPlan = {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      files: [
+        ...plan.pullRequest.files.map((file) =>
+          file.encoding === 'base64' || !fromPrototype(file)
+            ? file
+            : { ...file, content: rewriteAssetReferences(file.content, assets) }
+        ),
+        ...assets
+          .filter((asset) => !existing.has(asset.to))
+          .map((asset) => ({
+            ...sources.get(asset.from)!,
+            path: asset.to,
+            operation: 'create' as const,
+          })),
+      ],
+    },
+  };
+  return addCommit(
+    relocated,
+    {
+      message: 'Add prototype static assets',
+      files: assets.map((asset) => asset.to),
+    },
+    'start'
+  );
+}
@@ -0,0 +1,125 @@
+import type { IntegrationPlan, PlanCommit, PlanFile } from './llm';
+
+export interface CommitGroup {
+  message: string;
+  files: PlanFile[];
+}
+
+export interface CommitPlanIssues {
+  // paths more than one planned file writes to
+  duplicateFiles: string[];
+  // paths listed more than once across the commits, the first listing wins
+  duplicateCommitPaths: string[];
+  // paths a commit lists that no planned file has, before or after a rename
+  unmatchedCommitPaths: string[];
+}
+
+// commits may list a renamed file under either of its paths
+function matchesPath(file: PlanFile, path: string) {
+  return file.path === path || file.previousPath === path;
+}
+
+// the files of each planned commit, in order. Files no commit mentions, like
+// ones added or moved after generation, go into a final commit, and a plan
+// without commits is committed in one go under its title
+export function groupCommits(plan: IntegrationPlan): CommitGroup[] {
+  const assigned = new Set<PlanFile>();
+
+  const groups = (plan.pullRequest.commits || []).flatMap((commit) => {
+    const commitFiles = commit.files.flatMap((path) => {
+      const matched = plan.pullRequest.files.filter(
+        (file) => !assigned.has(file) && matchesPath(file, path)
+      );
+      matched.forEach((file) => assigned.add(file));
+      return matched;
+    });
+    return commitFiles.length
+      ? [{ message: commit.message, files: commitFiles }]
+      : [];
+  });
+
+  const remaining = plan.pullRequest.files.filter(
+    (file) => !assigned.has(file)
+  );
+  if (remaining.length) {
+    groups.push({
+      message: groups.length
+        ? 'Add remaining integration files'
+        : plan.pullRequest.title,
+      files: remaining,
+    });
+  }
+  return groups;
+}
+
+function repeated(paths: string[]) {
+  return [
+    ...new Set(paths.filter((path, index) => paths.indexOf(path) !== index)),
+  ];
+}
+
+// what groupCommits can't follow, so the plan can be fixed before it's committed
+export function commitPlanIssues(plan: IntegrationPlan): CommitPlanIssues {
+  const files = plan.pullRequest.files;
+  const listed = (plan.pullRequest.commits || []).flatMap(
+    (commit) => commit.files
+  );
+  return {
+    duplicateFiles: repeated(files.map((file) => file.path)),
+    duplicateCommitPaths: repeated(listed),
+    unmatchedCommitPaths: [
+      ...new Set(
+        listed.filter((path) => !files.some((file) => matchesPath(file, path)))
+      ),
+    ],
+  };
+}
+
+// put paths into their own commit, ahead of or after the planned ones
+export function addCommit(
+  plan: IntegrationPlan,
+  commit: PlanCommit,
+  position: 'start' | 'end'
+): IntegrationPlan {
+  const commits = plan.pullRequest.commits;
+  if (!commits) return plan;
+
+  const existing = commits.find((c) => c.message === commit.message);
+  const others = commits
+    .filter((c) => c !== existing)
+    .map((c) => ({
+      ...c,
+      files: c.files.filter((path) => !commit.files.includes(path)),
+    }));
+  const merged = {
+    message: commit.message,
+    files: [...new Set([...(existing?.files || []), ...commit.files])],
+  };
+
+  return {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      commits: position === 'start' ? [merged, ...others] : [...others, merged],
+    },
+  };
+}
+
+// keep a moved file in the commit it was planned for
+export function renameCommitFile(
+  plan: IntegrationPlan,
+  from: string,
+  to: string
+): IntegrationPlan {
+  if (!plan.pullRequest.commits) return plan;
+  return {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      commits: plan.pullRequest.commits.map((commit) => ({
+        ...commit,
+        files: commit.files.map((path) => (path === from ? to : path)),
+      })),
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import type { Octokit } from '@octokit/rest';
+import { Buffer } from 'buffer';
+import { countTokens, trimPrompt } from './providers';
+import type { RepositoryEntry } from './repoIndexer';
+
+export interface RankedFile {
+  path: string;
+  score: number;
+  reason: string;
+}
+
+interface SelectTargetContextParams {
+  owner: string;
+  repo: string;
+  ref: string;
+  entries: RepositoryEntry[];
+  route?: string;
+  tokenBudget?: number;
+  maxFiles?: number;
+}
+
+export interface TargetContext {
+  entries: RepositoryEntry[];
+  selected: Array<RankedFile & { tokens: number; truncated: boolean }>;
+  usedTokens: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = 24_000;
+const DEFAULT_MAX_FILES = 40;
+// don't bother sending a truncated file if less than this is left in the budget
+const MIN_PARTIAL_TOKENS = 400;
+const FETCH_BATCH_SIZE = 5;
+
+const TEXT_EXTENSIONS =
+  /\.(tsx?|jsx?|mjs|cjs|json|css|scss|sass|less|md|mdx|html|svelte|astro|vue|ya?ml|toml)$/;
+
+const CONFIG_PATTERNS: Array<[RegExp, number, string]> = [
+  [/^package\.json$/, 100, 'package manifest'],
+  [
+    /^(next|vite|remix|svelte|astro)\.config\.[cm]?[jt]s$/,
+    90,
+    'framework config',
+  ],
+  [/^tailwind\.config\.[cm]?[jt]s$/, 90, 'tailwind config'],
+  [/^(tsconfig|jsconfig)\.json$/, 70, 'compiler config'],
+  [/^components\.json$/, 70, 'shadcn/ui config'],
+  [/^postcss\.config\.[cm]?[jt]s$/, 50, 'postcss config'],
+];
+
+const LAYOUT_PATTERN =
+  /(^|\/)(layout|_app|_document|root|\+layout)\.(tsx|jsx|ts|js|svelte|astro)$/;
+const PAGE_PATTERN =
+  /(^|\/)(page|index|\+page|route|_index)\.(tsx|jsx|ts|js|mdx|svelte|astro)$/;
+const GLOBAL_STYLE_PATTERN = /(^|\/)(globals?|app|index)\.(css|scss)$/;
+const UTILITY_PATTERN = /(^|\/)lib\/utils\.(ts|js)$/;
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function scoreFile(
+  path: string,
+  routeSegments: string[]
+): { score: number; reason: string } | null {
+  if (!TEXT_EXTENSIONS.test(path)) {
+    return null;
+  }
+
+  const parts = path.split('/');
+  const fileName = parts[parts.length - 1]!;
+  const depth = parts.length - 1;
+  // prefer files closer to the root, monorepos nest everything a few levels deep
+  const depthPenalty = depth * 3;
+
+  for (const [pattern, score, reason] of CONFIG_PATTERNS) {
+    if (pattern.test(fileName)) {
+      return { score: score - depthPenalty, reason };
+    }
+  }
+
+  if (LAYOUT_PATTERN.test(path)) {
+    return { score: 80 - depthPenalty, reason: 'layout' };
+  }
+
+  if (PAGE_PATTERN.test(path) && /(^|\/)(app|pages|routes|src)\//.test(path)) {
+    const nearRoute = routeSegments.some((segment) =>
+      parts.some((part) => slugify(part) === segment)
+    );
+    return nearRoute
+      ? { score: 75 - depthPenalty, reason: 'page near proposed route' }
+      : { score: 30 - depthPenalty, reason: 'existing page' };
+  }
+
+  if (/(^|\/)components\/ui\//.test(path)) {
+    return { score: 55 - depthPenalty, reason: 'shared UI component' };
+  }
+
+  if (UTILITY_PATTERN.test(path)) {
+    return { score: 50 - depthPenalty, reason: 'shared utility' };
+  }
+
+  if (GLOBAL_STYLE_PATTERN.test(path)) {
+    return { score: 45 - depthPenalty, reason: 'global styles' };
+  }
+
+  if (/(^|\/)components\//.test(path)) {
+    return { score: 35 - depthPenalty, reason: 'shared component' };
+  }
+
+  return null;
+}
+
+export function rankTargetFiles(
+  entries: RepositoryEntry[],
+  route = ''
+): RankedFile[] {
+  const routeSegments = route.split('/').map(slugify).filter(Boolean);
+
+  return entries
+    .filter((entry) => entry.type === 'file')
+    .map((entry) => {
+      const result = scoreFile(entry.path, routeSegments);
+      return result ? { path: entry.path, ...result } : null;
+    })
+    .filter((file): file is RankedFile => file !== null && file.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+async function fetchFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<string | null> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== 'file') {
+      return null;
+    }
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  } catch (error) {
+    console.warn(`Failed to fetch ${path}:`, error);
+    return null;
+  }
+}
+
+// pick the most relevant target files and pack their contents into a token budget
+export async function selectTargetContext(
+  octokit: Octokit,
+  {
+    owner,
+    repo,
+    ref,
+    entries,
+    route,
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    maxFiles = DEFAULT_MAX_FILES,
+  }: SelectTargetContextParams
+): Promise<TargetContext> {
+  const ranked = rankTargetFiles(entries, route).slice(0, maxFiles);
+  const contents = new Map<string, string>();
+  const selected: TargetContext['selected'] = [];
+  let usedTokens = 0;
+
+  for (let i = 0; i < ranked.length; i += FETCH_BATCH_SIZE) {
+    const remaining = tokenBudget - usedTokens;
+    if (remaining < MIN_PARTIAL_TOKENS) break;
+
+    const batch = ranked.slice(i, i + FETCH_BATCH_SIZE);
+    const fetched = await Promise.all(
+      batch.map((file) =>
+        fetchFileContent(octokit, owner, repo, ref, file.path)
+      )
+    );
+
+    batch.forEach((file, index) => {
+      let content = fetched[index];
+      if (content == null) return;
+
+      const available = tokenBudget - usedTokens;
+      let tokens = countTokens(content);
+      let truncated = false;
+
+      if (tokens > available) {
+        if (available < MIN_PARTIAL_TOKENS) return;
+        content = trimPrompt(content, available);
+        tokens = countTokens(content);
+        truncated = true;
+      }
+
+      contents.set(file.path, content);
+      selected.push({ ...file, tokens, truncated });
+      usedTokens += tokens;
+    });
+  }
+
+  return {
+    entries: entries.map((entry) =>
+      contents.has(entry.path)
+        ? { ...entry, content: contents.get(entry.path) }
+        : entry
+    ),
+    selected,
+    usedTokens,
+  };
+}
@@ -0,0 +1,443 @@
+import { addCommit } from './commits';
+import { globToRegExp } from './ignore';
+import { packageNameFromSpecifier } from './packageSpecifiers';
+import { directoryOf } from './paths';
+import {
+  extractDependencies,
+  parsePackageJson,
+  type IntegrationPlan,
+} from './llm';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+interface RepositoryFile {
+  path: string;
+  type: 'file' | 'directory';
+  content?: string;
+}
+
+export interface WorkspacePackage {
+  // '' for the repository root
+  directory: string;
+  path: string;
+  name?: string;
+  content: string;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+export interface TargetManifests {
+  packageManager: PackageManager;
+  // globs from pnpm-workspace.yaml or the root package.json `workspaces`
+  workspaceGlobs: string[];
+  packages: WorkspacePackage[];
+}
+
+// unversioned: missing, and the prototype doesn't say which version it used
+export type DependencyStatus =
+  | 'missing'
+  | 'unversioned'
+  | 'present'
+  | 'conflict'
+  | 'workspace';
+
+// added for unversioned packages so the branch installs, pinned in review
+export const UNVERSIONED_RANGE = 'latest';
+
+export interface DependencyCheck {
+  name: string;
+  status: DependencyStatus;
+  // version the prototype was built against, if its package.json was uploaded
+  requested?: string;
+  installed?: string;
+  importedBy: string[];
+}
+
+export interface DependencyReport {
+  packageManager: PackageManager;
+  workspace?: WorkspacePackage;
+  checks: DependencyCheck[];
+  // versions to add to the workspace package's dependencies
+  additions: Record<string, string>;
+  installCommand: string;
+  // reinstalls the unversioned packages, so the package manager pins the
+  // versions `latest` resolved to
+  addCommand?: string;
+}
+
+const PNPM_WORKSPACE_FILE = 'pnpm-workspace.yaml';
+
+// everything GitHub needs to fetch before manifests can be loaded
+export function manifestPaths(entries: RepositoryFile[]): string[] {
+  return entries
+    .filter(
+      (entry) =>
+        entry.type === 'file' &&
+        (entry.path === PNPM_WORKSPACE_FILE ||
+          entry.path.split('/').pop() === 'package.json')
+    )
+    .map((entry) => entry.path);
+}
+
+// only the `packages:` list is needed, so a full YAML parser isn't
+export function parsePnpmWorkspace(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+
+  content.split(/\r?\n/).forEach((line) => {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      return;
+    }
+    if (inPackages) {
+      const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+      if (item) {
+        globs.push(item[1]!);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  });
+
+  return globs;
+}
+
+function detectPackageManager(
+  entries: RepositoryFile[],
+  rootManifest?: { packageManager?: string }
+): PackageManager {
+  const declared = rootManifest?.packageManager?.split('@')[0];
+  if (
+    declared === 'pnpm' ||
+    declared === 'yarn' ||
+    declared === 'npm' ||
+    declared === 'bun'
+  ) {
+    return declared;
+  }
+  // lockfiles are excluded from the index, so go by the other files each tool leaves
+  const paths = new Set(entries.map((entry) => entry.path));
+  if (paths.has(PNPM_WORKSPACE_FILE) || paths.has('.pnpmfile.cjs')) {
+    return 'pnpm';
+  }
+  if (paths.has('.yarnrc.yml') || paths.has('.yarnrc')) return 'yarn';
+  if (paths.has('bunfig.toml')) return 'bun';
+  return 'npm';
+}
+
+export function loadTargetManifests(
+  entries: RepositoryFile[],
+  contents: Record<string, string | null>
+): TargetManifests {
+  const packages: WorkspacePackage[] = [];
+  let rootManifest:
+    | {
+        packageManager?: string;
+        workspaces?: string[] | { packages?: string[] };
+      }
+    | undefined;
+
+  manifestPaths(entries).forEach((path) => {
+    const content = contents[path];
+    if (!content || path === PNPM_WORKSPACE_FILE) return;
+
+    let name: string | undefined;
+    try {
+      const parsed = JSON.parse(content);
+      name = parsed.name;
+      if (path === 'package.json') rootManifest = parsed;
+    } catch {
+      return;
+    }
+    packages.push({
+      directory: directoryOf(path),
+      path,
+      name,
+      content,
+      ...parsePackageJson(content),
+    });
+  });
+
+  const pnpmWorkspace = contents[PNPM_WORKSPACE_FILE];
+  const workspaces = rootManifest?.workspaces;
+  const workspaceGlobs = pnpmWorkspace
+    ? parsePnpmWorkspace(pnpmWorkspace)
+    : Array.isArray(workspaces)
+    ? workspaces
+    : workspaces?.packages || [];
+
+  return {
+    packageManager: detectPackageManager(entries, rootManifest),
+    workspaceGlobs,
+    packages,
+  };
+}
+
+function isWorkspaceMember(manifests: TargetManifests, directory: string) {
+  if (!directory) return true;
+  return manifests.workspaceGlobs
+    .filter((glob) => !glob.startsWith('!'))
+    .some((glob) => globToRegExp(glob.replace(/\/+$/, '')).test(directory));
+}
+
+// the package owning most of the proposed files, preferring the deepest match
+export function findWorkspacePackage(
+  manifests: TargetManifests,
+  paths: string[]
+): WorkspacePackage | undefined {
+  const candidates = manifests.packages.filter((pkg) =>
+    isWorkspaceMember(manifests, pkg.directory)
+  );
+  let best: WorkspacePackage | undefined;
+  let bestCount = 0;
+
+  candidates.forEach((pkg) => {
+    const count = paths.filter(
+      (path) => !pkg.directory || path.startsWith(`${pkg.directory}/`)
+    ).length;
+    if (
+      count > bestCount ||
+      (count === bestCount &&
+        count > 0 &&
+        best &&
+        pkg.directory.length > best.directory.length)
+    ) {
+      best = pkg;
+      bestCount = count;
+    }
+  });
+
+  return best ?? candidates.find((pkg) => pkg.directory === '');
+}
+
+function parseVersion(range: string) {
+  const match = range.match(/(\d+)(?:\.(\d+))?/);
+  if (!match || /^(workspace|file|link|git|https?):/.test(range)) return null;
+  return { major: Number(match[1]), minor: Number(match[2] ?? 0) };
+}
+
+// a rough semver check: ranges conflict when their majors differ (minors for 0.x)
+function versionsConflict(requested: string, installed: string) {
+  const a = parseVersion(requested);
+  const b = parseVersion(installed);
+  if (!a || !b) return false;
+  if (a.major !== b.major) return true;
+  return a.major === 0 && a.minor !== b.minor;
+}
+
+function installCommand(manager: PackageManager) {
+  return `${manager} install`;
+}
+
+function addCommand(manager: PackageManager, names: string[]) {
+  return `${manager} ${manager === 'npm' ? 'install' : 'add'} ${names.join(' ')}`;
+}
+
+interface ReconcileDependenciesParams {
+  // proposed pull request files, their imports are what has to resolve
+  files: Array<{ path: string; content: string }>;
+  prototypeFiles: Array<{ path: string; content: string }>;
+  entries: RepositoryFile[];
+  manifests: TargetManifests;
+}
+
+export function reconcileDependencies({
+  files,
+  prototypeFiles,
+  entries,
+  manifests,
+}: ReconcileDependenciesParams): DependencyReport {
+  const workspace = findWorkspacePackage(
+    manifests,
+    files.map((file) => file.path)
+  );
+  const root = manifests.packages.find((pkg) => pkg.directory === '');
+  const workspaceNames = new Map(
+    manifests.packages.filter((pkg) => pkg.name).map((pkg) => [pkg.name!, pkg])
+  );
+
+  // versions come from the prototype's own package.json, if it was uploaded
+  const prototypeManifest = prototypeFiles
+    .filter((file) => file.path.split('/').pop() === 'package.json')
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+  const prototypeVersions = prototypeManifest
+    ? (({ dependencies, devDependencies }) => ({
+        ...devDependencies,
+        ...dependencies,
+      }))(parsePackageJson(prototypeManifest.content))
+    : {};
+
+  // bare imports of local folders (baseUrl imports like `components/Button`)
+  const prefix = workspace?.directory ? `${workspace.directory}/` : '';
+  const localRoots = new Set(
+    entries
+      .filter((entry) => entry.path.startsWith(prefix))
+      .map((entry) => entry.path.slice(prefix.length).replace(/^src\//, ''))
+      .map((path) => path.split('/')[0]!)
+  );
+
+  const importedBy = new Map<string, string[]>();
+  files
+    .filter((file) => /\.(tsx?|jsx?|mjs|cjs|svelte|astro|vue)$/.test(file.path))
+    .forEach((file) => {
+      extractDependencies(file.content).forEach((specifier) => {
+        const name = packageNameFromSpecifier(specifier);
+        if (!name || (localRoots.has(name) && !name.startsWith('@'))) return;
+        importedBy.set(name, [...(importedBy.get(name) || []), file.path]);
+      });
+    });
+
+  const checks: DependencyCheck[] = [];
+  const additions: Record<string, string> = {};
+  const workspaceProtocol =
+    manifests.packageManager === 'npm' ? '*' : 'workspace:*';
+
+  [...importedBy.keys()].sort().forEach((name) => {
+    const requested = prototypeVersions[name];
+    const installed =
+      workspace?.dependencies[name] ??
+      workspace?.devDependencies[name] ??
+      root?.dependencies[name] ??
+      root?.devDependencies[name];
+    const check = {
+      name,
+      requested,
+      installed,
+      importedBy: importedBy.get(name)!,
+    };
+
+    const member = workspaceNames.get(name);
+    if (member && member !== workspace) {
+      checks.push({ ...check, status: 'workspace' });
+      if (!installed) additions[name] = workspaceProtocol;
+    } else if (!installed && requested) {
+      checks.push({ ...check, status: 'missing' });
+      additions[name] = requested;
+    } else if (!installed) {
+      checks.push({ ...check, status: 'unversioned' });
+      additions[name] = UNVERSIONED_RANGE;
+    } else if (requested && versionsConflict(requested, installed)) {
+      checks.push({ ...check, status: 'conflict' });
+    } else {
+      checks.push({ ...check, status: 'present' });
+    }
+  });
+
+  const unversioned = checks
+    .filter((check) => check.status === 'unversioned')
+    .map((check) => check.name);
+  return {
+    packageManager: manifests.packageManager,
+    workspace,
+    checks,
+    additions,
+    installCommand: installCommand(manifests.packageManager),
+    addCommand: unversioned.length
+      ? addCommand(manifests.packageManager, unversioned)
+      : undefined,
+  };
+}
+
+// add dependencies without disturbing the manifest's formatting or key order
+export function updatePackageJson(
+  content: string,
+  additions: Record<string, string>
+): string {
+  const manifest = JSON.parse(content);
+  const current: Record<string, string> = manifest.dependencies || {};
+  const keys = Object.keys(current);
+  const sorted = keys.every((key, i) => i === 0 || keys[i - 1]! <= key);
+
+  const merged: Record<string, string> = { ...current };
+  Object.entries(additions).forEach(([name, version]) => {
+    if (!(name in merged)) merged[name] = version;
+  });
+  manifest.dependencies = sorted
+    ? Object.fromEntries(
+        Object.entries(merged).sort(([a], [b]) => (a < b ? -1 : 1))
+      )
+    : merged;
+
+  const indent = content.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+  return `${JSON.stringify(manifest, null, indent)}${
+    content.endsWith('\n') ? '\n' : ''
+  }`;
+}
+
+// additions the plan's copy of the workspace package.json doesn't have yet
+export function pendingAdditions(
+  plan: IntegrationPlan,
+  report: DependencyReport
+): Record<string, string> {
+  const manifest = plan.pullRequest.files.find(
+    (file) => file.path === report.workspace?.path
+  );
+  let declared: Record<string, string> = {};
+  if (manifest) {
+    const { dependencies, devDependencies } = parsePackageJson(
+      manifest.content
+    );
+    declared = { ...devDependencies, ...dependencies };
+  }
+
+  return Object.fromEntries(
+    Object.entries(report.additions).filter(([name]) => !(name in declared))
+  );
+}
+
+// add or update the workspace package.json in the plan's files
+export function applyDependencyReport(
+  plan: IntegrationPlan,
+  report: DependencyReport
+): IntegrationPlan {
+  const workspace = report.workspace;
+  const additions = pendingAdditions(plan, report);
+  if (!workspace || Object.keys(additions).length === 0) return plan;
+
+  const files = plan.pullRequest.files;
+  const existing = files.find((file) => file.path === workspace.path);
+  let content: string;
+  try {
+    content = updatePackageJson(
+      existing?.content ?? workspace.content,
+      additions
+    );
+  } catch (error) {
+    // the model wrote an invalid manifest, leave it for the reviewer to fix
+    console.error('Failed to update package.json:', error);
+    return plan;
+  }
+
+  const directory = workspace.directory || 'the repository root';
+  const unversioned = Object.keys(additions).filter(
+    (name) => additions[name] === UNVERSIONED_RANGE
+  );
+  const steps = [
+    `Run \`${report.installCommand}\` in ${directory} to update the lockfile`,
+    unversioned.length > 0 &&
+      report.addCommand &&
+      `Review ${unversioned.join(', ')}, added as \`${UNVERSIONED_RANGE}\`: run \`${report.addCommand}\` in ${directory} to pin the versions`,
+  ].filter((step): step is string => Boolean(step));
+
+  const updated: IntegrationPlan = {
+    ...plan,
+    integrationSteps: [
+      ...plan.integrationSteps,
+      ...steps.filter((step) => !plan.integrationSteps.includes(step)),
+    ],
+    pullRequest: {
+      ...plan.pullRequest,
+      files: existing
+        ? files.map((file) => (file === existing ? { ...file, content } : file))
+        : [
+            ...files,
+            { path: workspace.path, content, operation: 'modify' as const },
+          ],
+    },
+  };
+  return addCommit(
+    updated,
+    { message: 'Add prototype dependencies', files: [workspace.path] },
+    'start'
+  );
+}
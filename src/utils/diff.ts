@@ -0,0 +1,221 @@
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  // a trailing newline doesn't start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Myers' O(ND) diff, one operation per line
+function myersDiff(
+  a: string[],
+  b: string[]
+): Array<{ type: DiffLine['type']; oldIndex: number; newIndex: number }> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // only the [-d - 1, d + 1] window of each step is needed to backtrack
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d += 1) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const ops: Array<{
+    type: DiffLine['type'];
+    oldIndex: number;
+    newIndex: number;
+  }> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const snapshot = trace[d]!;
+    const at = (k: number) => snapshot[k + d + 1]!;
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x -= 1;
+      y -= 1;
+      ops.push({ type: 'context', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'add', oldIndex: x, newIndex: prevY });
+      } else {
+        ops.push({ type: 'remove', oldIndex: prevX, newIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // skip the common prefix and suffix, most edits touch a small region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i += 1) {
+    lines.push({
+      type: 'context',
+      content: a[i]!,
+      oldLine: i + 1,
+      newLine: i + 1,
+    });
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  myersDiff(middleA, middleB).forEach(({ type, oldIndex, newIndex }) => {
+    if (type === 'add') {
+      lines.push({
+        type,
+        content: middleB[newIndex]!,
+        newLine: prefix + newIndex + 1,
+      });
+    } else if (type === 'remove') {
+      lines.push({
+        type,
+        content: middleA[oldIndex]!,
+        oldLine: prefix + oldIndex + 1,
+      });
+    } else {
+      lines.push({
+        type,
+        content: middleA[oldIndex]!,
+        oldLine: prefix + oldIndex + 1,
+        newLine: prefix + newIndex + 1,
+      });
+    }
+  });
+
+  for (let i = suffix; i > 0; i -= 1) {
+    lines.push({
+      type: 'context',
+      content: a[a.length - i]!,
+      oldLine: a.length - i + 1,
+      newLine: b.length - i + 1,
+    });
+  }
+
+  return lines;
+}
+
+export function countChanges(lines: DiffLine[]): {
+  additions: number;
+  deletions: number;
+} {
+  return lines.reduce(
+    (counts, line) => ({
+      additions: counts.additions + (line.type === 'add' ? 1 : 0),
+      deletions: counts.deletions + (line.type === 'remove' ? 1 : 0),
+    }),
+    { additions: 0, deletions: 0 }
+  );
+}
+
+// group changed lines into hunks with `context` unchanged lines around them
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let trailingContext = 0;
+
+  const flush = () => {
+    // drop context beyond what's needed after the last change
+    const end = current.length - Math.max(0, trailingContext - context);
+    const hunkLines = current.slice(0, end);
+    if (hunkLines.some((line) => line.type !== 'context')) {
+      const first = hunkLines[0]!;
+      const oldLines = hunkLines.filter((l) => l.type !== 'add').length;
+      const newLines = hunkLines.filter((l) => l.type !== 'remove').length;
+      hunks.push({
+        oldStart: first.oldLine ?? lineBefore(hunkLines, 'oldLine'),
+        oldLines,
+        newStart: first.newLine ?? lineBefore(hunkLines, 'newLine'),
+        newLines,
+        lines: hunkLines,
+      });
+    }
+    current = [];
+    trailingContext = 0;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === 'context') {
+      if (current.length === 0) return;
+      current.push(line);
+      trailingContext += 1;
+      if (trailingContext > context * 2) flush();
+      return;
+    }
+
+    if (current.length === 0) {
+      current = lines
+        .slice(Math.max(0, index - context), index)
+        .filter((l) => l.type === 'context');
+    }
+    current.push(line);
+    trailingContext = 0;
+  });
+  flush();
+
+  return hunks;
+}
+
+// start line for a hunk that begins with a pure addition or removal
+function lineBefore(lines: DiffLine[], key: 'oldLine' | 'newLine') {
+  const next = lines.find((line) => line[key] !== undefined);
+  if (!next) return 0;
+  return next[key]!;
+}
@@ -0,0 +1,344 @@
+import { z } from 'zod';
+import { directoryOf } from './paths';
+
+export type FrameworkId =
+  | 'nextjs'
+  | 'remix'
+  | 'vite-react-router'
+  | 'sveltekit'
+  | 'astro';
+
+interface RepositoryFile {
+  path: string;
+  type: 'file' | 'directory';
+  content?: string;
+}
+
+export interface RoutingLayout {
+  routerType: string;
+  routesDirectory: string;
+}
+
+export interface FrameworkStrategy {
+  id: FrameworkId;
+  label: string;
+  // any of these in a package.json marks the framework
+  packages: string[];
+  configFile: RegExp;
+  routerTypes: readonly [string, ...string[]];
+  // paths are relative to the project root
+  detectRouting: (paths: string[]) => RoutingLayout;
+  // prompt fragment describing how pages and routes are added
+  routingConventions: string;
+  routeFileDescription: string;
+  // served as-is from the site root, relative to the project root
+  staticDirectory: string;
+  // extra fields the directory analysis returns for this framework
+  analysisFields: z.ZodRawShape;
+}
+
+export interface FrameworkDetection extends RoutingLayout {
+  id: FrameworkId;
+  // directory holding the framework's package.json, '' for the repo root
+  root: string;
+  version?: string;
+  evidence: string[];
+}
+
+type PackageManifest = {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+};
+
+function hasPath(paths: string[], pattern: RegExp) {
+  return paths.some((path) => pattern.test(path));
+}
+
+function firstMatch(paths: string[], candidates: string[]) {
+  return candidates.find((candidate) =>
+    paths.some((path) => path.startsWith(`${candidate}/`))
+  );
+}
+
+const nextjs: FrameworkStrategy = {
+  id: 'nextjs',
+  label: 'Next.js',
+  packages: ['next'],
+  configFile: /^next\.config\.[cm]?[jt]s$/,
+  routerTypes: ['app', 'pages'],
+  detectRouting: (paths) => {
+    const appDirectory = firstMatch(paths, ['app', 'src/app']);
+    if (appDirectory && hasPath(paths, /(^|\/)app\/(.*\/)?page\.[jt]sx?$/)) {
+      return { routerType: 'app', routesDirectory: appDirectory };
+    }
+    return {
+      routerType: 'pages',
+      routesDirectory: firstMatch(paths, ['pages', 'src/pages']) || 'pages',
+    };
+  },
+  routingConventions: `- App Router: every route is a folder under app/ with a page.tsx, shared UI goes in layout.tsx. Components are server components unless they start with 'use client', which is required for state, effects and event handlers.
+- Pages Router: every file under pages/ is a route, pages/foo/index.tsx serves /foo. Don't mix routers for a single route.
+- Use next/link for navigation and next/image for images where the repo already does.`,
+  routeFileDescription:
+    'The page file that serves the route, e.g. app/<route>/page.tsx or pages/<route>/index.tsx',
+  staticDirectory: 'public',
+  analysisFields: {
+    layoutFile: z
+      .string()
+      .describe('Root layout or _app file the new page renders inside'),
+    usesServerComponents: z.boolean(),
+  },
+};
+
+const remix: FrameworkStrategy = {
+  id: 'remix',
+  label: 'Remix',
+  packages: ['@remix-run/react', '@remix-run/dev', '@react-router/dev'],
+  configFile: /^(remix\.config\.[cm]?js|react-router\.config\.[cm]?[jt]s)$/,
+  routerTypes: ['flat-routes', 'config-routes', 'nested-folders'],
+  detectRouting: (paths) => {
+    if (hasPath(paths, /^app\/routes\.[jt]s$/)) {
+      return { routerType: 'config-routes', routesDirectory: 'app/routes' };
+    }
+    // v1 conventions nest routes in folders, flat routes encode nesting with dots
+    const nested = hasPath(paths, /^app\/routes\/[^/.]+\/[^/]+\.[jt]sx?$/);
+    return {
+      routerType: nested ? 'nested-folders' : 'flat-routes',
+      routesDirectory: 'app/routes',
+    };
+  },
+  routingConventions: `- Routes live in app/routes. With flat routes, app/routes/foo.bar.tsx serves /foo/bar, foo._index.tsx serves /foo and a folder route uses foo/route.tsx.
+- If app/routes.ts exists (React Router v7 framework mode) routes are registered there explicitly, so the plan must add the new route to it.
+- A route module default-exports the component and may export loader, action, meta and links. Data loading belongs in loader, not effects.
+- Use the Link component from the package the repo already imports (@remix-run/react or react-router).`,
+  routeFileDescription:
+    'The route module that serves the route, e.g. app/routes/<route>.tsx or app/routes/<route>/route.tsx',
+  staticDirectory: 'public',
+  analysisFields: {
+    rootFile: z.string().describe('The app/root.tsx file wrapping all routes'),
+    routeExports: z
+      .array(z.string())
+      .describe('Route module exports the repo uses, e.g. loader, meta'),
+  },
+};
+
+const viteReactRouter: FrameworkStrategy = {
+  id: 'vite-react-router',
+  label: 'Vite + React Router',
+  packages: ['react-router-dom'],
+  configFile: /^vite\.config\.[cm]?[jt]s$/,
+  routerTypes: ['data-router', 'declarative-routes'],
+  detectRouting: (paths) => ({
+    // the route table's location varies, the analysis step pins it down
+    routerType: 'data-router',
+    routesDirectory:
+      firstMatch(paths, ['src/pages', 'src/routes', 'src/views']) ||
+      'src/pages',
+  }),
+  routingConventions: `- There are no file-based routes. Page components live in a folder like src/pages and are registered in a route table, either createBrowserRouter([...]) or <Routes><Route /></Routes>, usually in src/main.tsx, src/App.tsx or src/router.tsx.
+- The plan must add the page component and edit the file that declares the routes, keeping the existing style (object routes vs JSX routes, lazy imports).
+- Navigation uses Link or NavLink from react-router-dom.`,
+  routeFileDescription:
+    'The file that declares the route table and must register the new page, e.g. src/router.tsx',
+  staticDirectory: 'public',
+  analysisFields: {
+    routerFile: z
+      .string()
+      .describe('File that declares the routes, e.g. src/main.tsx'),
+    entryFile: z.string(),
+  },
+};
+
+const sveltekit: FrameworkStrategy = {
+  id: 'sveltekit',
+  label: 'SvelteKit',
+  packages: ['@sveltejs/kit'],
+  configFile: /^svelte\.config\.[cm]?js$/,
+  routerTypes: ['file-routes'],
+  detectRouting: () => ({
+    routerType: 'file-routes',
+    routesDirectory: 'src/routes',
+  }),
+  routingConventions: `- Every route is a folder under src/routes with a +page.svelte, src/routes/foo/+page.svelte serves /foo. Shared UI goes in +layout.svelte.
+- Data loading goes in +page.ts or +page.server.ts exporting load. Shared components live in src/lib and are imported through $lib.
+- React components from the prototype must be rewritten as Svelte components, React can't be rendered directly.`,
+  routeFileDescription:
+    'The page file that serves the route, e.g. src/routes/<route>/+page.svelte',
+  staticDirectory: 'static',
+  analysisFields: {
+    layoutFile: z.string(),
+    usesTypeScript: z.boolean(),
+  },
+};
+
+const astro: FrameworkStrategy = {
+  id: 'astro',
+  label: 'Astro',
+  packages: ['astro'],
+  configFile: /^astro\.config\.[cm]?[jt]s$/,
+  routerTypes: ['file-routes'],
+  detectRouting: () => ({
+    routerType: 'file-routes',
+    routesDirectory: 'src/pages',
+  }),
+  routingConventions: `- Every .astro or .md file under src/pages is a route, src/pages/foo/index.astro serves /foo. Layouts live in src/layouts and wrap page content in a slot.
+- React components can stay React if @astrojs/react is installed, rendered from an .astro page with a client: directive (client:load, client:visible) when they need interactivity. Otherwise rewrite them as .astro components.`,
+  routeFileDescription:
+    'The page file that serves the route, e.g. src/pages/<route>/index.astro',
+  staticDirectory: 'public',
+  analysisFields: {
+    layoutFile: z.string(),
+    uiIntegrations: z
+      .array(z.string())
+      .describe('Installed UI integrations, e.g. @astrojs/react'),
+  },
+};
+
+// meta-frameworks first, they also depend on the libraries checked later
+export const frameworkStrategies: FrameworkStrategy[] = [
+  sveltekit,
+  astro,
+  remix,
+  nextjs,
+  viteReactRouter,
+];
+
+export function getFrameworkStrategy(id: FrameworkId = 'nextjs') {
+  return frameworkStrategies.find((strategy) => strategy.id === id) || nextjs;
+}
+
+function parseManifest(content: string): PackageManifest | null {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function relativeTo(root: string, paths: string[]) {
+  if (!root) return paths;
+  return paths
+    .filter((path) => path.startsWith(`${root}/`))
+    .map((path) => path.slice(root.length + 1));
+}
+
+// score every candidate project root (directories with a package.json or a
+// framework config) against each strategy and keep the best match. Entries
+// only carry the content the context selection kept, so package.json files
+// fetched on their own are passed in `manifests`
+export function detectFramework(
+  entries: RepositoryFile[],
+  manifests: Record<string, string | null> = {}
+): FrameworkDetection {
+  const files = entries.filter((entry) => entry.type === 'file');
+  const paths = files.map((entry) => entry.path);
+  let best: FrameworkDetection | null = null;
+  let bestScore = 0;
+
+  const candidates = new Map<string, PackageManifest | null>();
+  for (const file of files) {
+    const fileName = file.path.split('/').pop()!;
+    if (fileName === 'package.json') {
+      const content = manifests[file.path] ?? file.content;
+      candidates.set(
+        directoryOf(file.path),
+        content ? parseManifest(content) : null
+      );
+    } else if (
+      frameworkStrategies.some((strategy) => strategy.configFile.test(fileName))
+    ) {
+      const root = directoryOf(file.path);
+      if (!candidates.has(root)) candidates.set(root, null);
+    }
+  }
+
+  // shallowest first, so the repo root wins ties with nested packages
+  const roots = [...candidates].sort(
+    ([a], [b]) => a.split('/').length - b.split('/').length
+  );
+  for (const [root, manifest] of roots) {
+    const rootPaths = relativeTo(root, paths);
+    const prefix = root ? `${root}/` : '';
+    const dependencies: Record<string, string> = {
+      ...manifest?.dependencies,
+      ...manifest?.devDependencies,
+    };
+
+    for (const strategy of frameworkStrategies) {
+      const evidence: string[] = [];
+      let score = 0;
+
+      const dependency = strategy.packages.find((name) => name in dependencies);
+      if (dependency) {
+        score += 10;
+        evidence.push(`${dependency} in ${prefix}package.json`);
+      }
+      const config = rootPaths.find((path) => strategy.configFile.test(path));
+      if (config) {
+        score += 5;
+        evidence.push(`${prefix}${config}`);
+      }
+      // vite.config alone doesn't mean react-router
+      if (strategy.id === 'vite-react-router' && !dependency) continue;
+
+      if (score > bestScore) {
+        const layout = strategy.detectRouting(rootPaths);
+        best = {
+          id: strategy.id,
+          root,
+          version: dependency
+            ? dependencies[dependency]?.replace(/^[\^~>=<\s]+/, '')
+            : undefined,
+          routerType: layout.routerType,
+          routesDirectory: `${prefix}${layout.routesDirectory}`,
+          evidence,
+        };
+        bestScore = score;
+      }
+    }
+  }
+
+  if (!best) {
+    return {
+      id: 'nextjs',
+      root: '',
+      ...nextjs.detectRouting(paths),
+      evidence: ['no framework detected, assuming Next.js'],
+    };
+  }
+
+  return best;
+}
+
+export function frameworkPromptFragment(detection: FrameworkDetection) {
+  const strategy = getFrameworkStrategy(detection.id);
+  return `Target Framework: ${strategy.label}${
+    detection.version ? ` ${detection.version}` : ''
+  }
+- Project root: ${detection.root || '(repository root)'}
+- Router: ${detection.routerType}, routes in ${detection.routesDirectory}
+Routing conventions:
+${strategy.routingConventions}`;
+}
+
+// detection for a framework the user picked, when the tree was misread
+export function selectFramework(
+  entries: RepositoryFile[],
+  id: FrameworkId,
+  root = ''
+): FrameworkDetection {
+  const strategy = getFrameworkStrategy(id);
+  const paths = entries
+    .filter((entry) => entry.type === 'file')
+    .map((entry) => entry.path);
+  const layout = strategy.detectRouting(relativeTo(root, paths));
+  return {
+    id,
+    root,
+    routerType: layout.routerType,
+    routesDirectory: root
+      ? `${root}/${layout.routesDirectory}`
+      : layout.routesDirectory,
+    evidence: ['selected manually'],
+  };
+}
@@ -1,18 +1,102 @@
 import { Octokit } from '@octokit/rest';
-import type { IntegrationPlan, PullRequestPlan } from './llm';
+import { Buffer } from 'buffer';
+import { groupCommits } from './commits';
+import {
+  sourcePath,
+  type FileMode,
+  type IntegrationPlan,
+  type PlanFile,
+} from './llm';
+import {
+  formatPRDescription,
+  type PullRequestMetadata,
+  type PullRequestOptions,
+} from './pullRequestDetails';
 
 interface CreatePullRequestParams {
   owner: string;
   repo: string;
   plan: IntegrationPlan;
   baseBranch: string;
+  // the commit the plan was generated against, defaults to the branch head
+  baseSha?: string;
+  // generated from the route when missing
+  branchName?: string;
+  // what to do when the branch already exists, the default is to ask
+  onBranchConflict?: BranchConflictResolution;
+  metadata: PullRequestMetadata;
+  options?: PullRequestOptions;
   token: string;
 }
 
-interface PullRequestResult {
+// existing branches only ever move forward, nothing is force-pushed
+export type BranchConflictResolution = 'new-branch' | 'fast-forward';
+
+// how the head branch got the new commit
+export type BranchOutcome = 'created' | 'renamed' | 'fast-forwarded';
+
+export interface BranchConflict {
+  branch: string;
+  headSha: string;
+  // commits on the branch that ProtoJam didn't make
+  foreignCommits: Array<{ sha: string; message: string; author?: string }>;
+  // commits past what GitHub lists in one comparison, they weren't checked
+  uncheckedCommits: number;
+  suggestedBranch: string;
+}
+
+interface FetchFileContentsParams {
+  owner: string;
+  repo: string;
+  ref: string;
+  paths: string[];
+  token: string;
+  // report files that fail to load as missing instead of failing every path
+  missingOnError?: boolean;
+}
+
+interface UpdatePullRequestParams {
+  owner: string;
+  repo: string;
+  plan: IntegrationPlan;
+  pullNumber: number;
+  metadata: PullRequestMetadata;
+  options?: PullRequestOptions;
+  token: string;
+}
+
+interface RepositoryParams {
+  owner: string;
+  repo: string;
+  token: string;
+}
+
+export interface RepositoryBranches {
+  defaultBranch: string;
+  // the default branch first, the rest alphabetically
+  branches: string[];
+}
+
+// an open pull request on a branch ProtoJam created
+export interface ExistingPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  branch: string;
+  baseBranch: string;
+  updatedAt: string;
+}
+
+export interface PullRequestResult {
   url: string;
   number: number;
   branch: string;
+  commitSha: string;
+  outcome: BranchOutcome;
+  // the branch that was asked for, when a new name had to be used
+  requestedBranch?: string;
+  // reviewers, labels or assignees GitHub didn't accept
+  warnings: string[];
 }
 
 class GitHubError extends Error {
@@ -26,6 +110,37 @@ class GitHubError extends Error {
   }
 }
 
+// octokit's request errors carry the HTTP status, anything else thrown doesn't
+export function errorStatus(error: unknown): number | undefined {
+  return (error as { status?: number } | null)?.status;
+}
+
+// deletions and content-preserving renames are the only changes without content
+function isCommittable(file: PlanFile) {
+  if (!file.path) return false;
+  if (file.operation === 'delete') return true;
+  if (file.operation === 'rename' && file.previousPath) return true;
+  return Boolean(file.content);
+}
+
+export class BranchConflictError extends GitHubError {
+  constructor(public conflict: BranchConflict) {
+    super(
+      conflict.foreignCommits.length
+        ? `Branch '${conflict.branch}' already exists and has ${conflict.foreignCommits.length} commit(s) not made by ProtoJam.`
+        : `Branch '${conflict.branch}' already exists.`,
+      422
+    );
+    this.name = 'BranchConflictError';
+  }
+}
+
+// content requests in flight at once, monorepos can have hundreds of manifests
+const CONTENT_BATCH_SIZE = 8;
+
+// marks the commits ProtoJam makes, anything else on a branch is someone's work
+const COMMIT_TRAILER = 'Generated-by: ProtoJam';
+
 export class GitHubService {
   private octokit: Octokit;
 
@@ -52,7 +167,12 @@ export class GitHubService {
     }
   }
 
-  private async getBaseBranch(owner: string, repo: string, branch: string) {
+  private async getBaseBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    sha?: string
+  ) {
     try {
       const { data: ref } = await this.octokit.git.getRef({
         owner,
@@ -63,17 +183,17 @@ export class GitHubService {
       const { data: commit } = await this.octokit.git.getCommit({
         owner,
         repo,
-        commit_sha: ref.object.sha,
+        commit_sha: sha || ref.object.sha,
       });
 
       return {
-        sha: ref.object.sha,
+        sha: commit.sha,
         treeSha: commit.tree.sha,
       };
     } catch (error: any) {
       if (error?.status === 404) {
         throw new GitHubError(
-          `Branch '${branch}' not found. Please verify the base branch name.`,
+          `Branch '${branch}' not found. It may have been deleted or renamed since the repository was analyzed.`,
           404,
           error
         );
@@ -86,6 +206,8 @@ export class GitHubService {
     }
   }
 
+  private static readonly BRANCH_PREFIX = 'protojam-';
+
   private generateBranchName(plan: IntegrationPlan): string {
     const safePrototypeName = (plan.pullRequest.route || 'prototype')
       .toLowerCase()
@@ -94,24 +216,101 @@ export class GitHubService {
       .toISOString()
       .replace(/[:.]/g, '-')
       .replace('Z', '');
-    return `protojam-${safePrototypeName}-${timestamp}`;
+    return `${GitHubService.BRANCH_PREFIX}${safePrototypeName}-${timestamp}`;
   }
 
   private async createGitTree(
     owner: string,
     repo: string,
     baseTreeSha: string,
-    files: PullRequestPlan['files']
+    files: PlanFile[]
   ) {
     try {
-      const treeEntries = files
-        .filter((file) => file.path && file.content)
-        .map((file) => ({
+      // read once, the first time a file's mode or a rename needs it
+      let baseEntries: Promise<Map<string, { sha: string; mode: string }>>;
+      const findBaseEntry = async (path: string) => {
+        baseEntries ??= this.octokit.git
+          .getTree({ owner, repo, tree_sha: baseTreeSha, recursive: 'true' })
+          .then(
+            ({ data }) =>
+              new Map(
+                data.tree
+                  .filter((item) => item.path && item.sha)
+                  .map((item) => [
+                    item.path!,
+                    { sha: item.sha!, mode: item.mode || '100644' },
+                  ])
+              )
+          );
+        return (await baseEntries).get(path);
+      };
+
+      // the model gives every file a mode and doesn't always label its
+      // operation, so any path already on the base branch keeps its own mode
+      // unless the plan makes it executable
+      const modeFor = async (file: PlanFile): Promise<FileMode> => {
+        const existing = await findBaseEntry(sourcePath(file));
+        if (!existing) return file.mode || '100644';
+        return file.mode === '100755' || existing.mode === '100755'
+          ? '100755'
+          : '100644';
+      };
+
+      const writeEntry = async (file: PlanFile) => {
+        const mode = await modeFor(file);
+        // inline tree content must be UTF-8, binaries go through a blob
+        if (file.encoding === 'base64') {
+          const sha = await this.createBlob(owner, repo, file);
+          return { path: file.path, mode, type: 'blob' as const, sha };
+        }
+        if (file.operation === 'rename' && !file.content) {
+          const existing = await findBaseEntry(file.previousPath!);
+          if (!existing) {
+            throw new GitHubError(
+              `Cannot rename ${file.previousPath}, it doesn't exist on the base branch`,
+              422
+            );
+          }
+          return {
+            path: file.path,
+            mode,
+            type: 'blob' as const,
+            sha: existing.sha,
+          };
+        }
+        return {
           path: file.path,
-          mode: '100644',
-          type: 'blob',
+          mode,
+          type: 'blob' as const,
           content: file.content,
-        }));
+        };
+      };
+
+      // a null sha removes the path from the base tree
+      const deleteEntry = (path: string) => ({
+        path,
+        mode: '100644' as const,
+        type: 'blob' as const,
+        sha: null,
+      });
+
+      const treeEntries = (
+        await Promise.all(
+          files.filter(isCommittable).map(async (file) => {
+            if (file.operation === 'delete') {
+              return [deleteEntry(file.path)];
+            }
+            if (
+              file.operation === 'rename' &&
+              file.previousPath &&
+              file.previousPath !== file.path
+            ) {
+              return [deleteEntry(file.previousPath), await writeEntry(file)];
+            }
+            return [await writeEntry(file)];
+          })
+        )
+      ).flat();
 
       if (!treeEntries.length) {
         throw new GitHubError(
@@ -134,7 +333,7 @@ export class GitHubService {
       console.error('Tree creation payload:', {
         baseTreeSha,
         fileCount: files.length,
-        validFileCount: files.filter((f) => f.path && f.content).length,
+        validFileCount: files.filter(isCommittable).length,
       });
       throw new GitHubError(
         `Failed to create Git tree: ${error.message || 'Unknown error'}`,
@@ -144,6 +343,24 @@ export class GitHubService {
     }
   }
 
+  private async createBlob(owner: string, repo: string, file: PlanFile) {
+    try {
+      const { data: blob } = await this.octokit.git.createBlob({
+        owner,
+        repo,
+        content: file.content,
+        encoding: 'base64',
+      });
+      return blob.sha;
+    } catch (error) {
+      throw new GitHubError(
+        `Failed to upload ${file.path}`,
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
   private async createCommit(
     owner: string,
     repo: string,
@@ -155,7 +372,7 @@ export class GitHubService {
       const { data: commit } = await this.octokit.git.createCommit({
         owner,
         repo,
-        message,
+        message: `${message}\n\n${COMMIT_TRAILER}`,
         tree: treeSha,
         parents: [parentSha],
       });
@@ -165,7 +382,105 @@ export class GitHubService {
     }
   }
 
-  private async createOrUpdateBranch(
+  // one commit per planned group, each built on top of the previous one
+  private async commitPlan(
+    owner: string,
+    repo: string,
+    plan: IntegrationPlan,
+    parent: { sha: string; treeSha: string }
+  ): Promise<string> {
+    const groups = groupCommits(plan).filter((group) =>
+      group.files.some(isCommittable)
+    );
+    if (!groups.length) {
+      throw new GitHubError(
+        'No valid files to commit. Each file must have both path and content.',
+        422
+      );
+    }
+
+    let head = parent;
+    for (const group of groups) {
+      const tree = await this.createGitTree(
+        owner,
+        repo,
+        head.treeSha,
+        group.files
+      );
+      const commit = await this.createCommit(
+        owner,
+        repo,
+        group.message,
+        tree.sha,
+        head.sha
+      );
+      head = { sha: commit.sha, treeSha: tree.sha };
+    }
+    return head.sha;
+  }
+
+  private async getBranchHead(
+    owner: string,
+    repo: string,
+    branchName: string
+  ): Promise<string | null> {
+    try {
+      const { data: ref } = await this.octokit.git.getRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+      });
+      return ref.object.sha;
+    } catch (error) {
+      if (errorStatus(error) === 404) {
+        return null;
+      }
+      throw new GitHubError(
+        `Failed to look up branch '${branchName}'`,
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
+  // the commits on an existing branch since `baseSha` that ProtoJam didn't make
+  private async findForeignCommits(
+    owner: string,
+    repo: string,
+    baseSha: string,
+    headSha: string
+  ): Promise<Pick<BranchConflict, 'foreignCommits' | 'uncheckedCommits'>> {
+    try {
+      const { data: comparison } = await this.octokit.repos.compareCommits({
+        owner,
+        repo,
+        base: baseSha,
+        head: headSha,
+      });
+      return {
+        foreignCommits: comparison.commits
+          .filter((commit) => !commit.commit.message.includes(COMMIT_TRAILER))
+          .map((commit) => ({
+            sha: commit.sha,
+            message: commit.commit.message.split('\n')[0]!,
+            author: commit.author?.login || commit.commit.author?.name,
+          })),
+        // the comparison lists at most 250 commits
+        uncheckedCommits: Math.max(
+          0,
+          comparison.total_commits - comparison.commits.length
+        ),
+      };
+    } catch (error) {
+      throw new GitHubError(
+        'Failed to compare the existing branch with the base branch',
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
+  private async createBranch(
     owner: string,
     repo: string,
     branchName: string,
@@ -179,39 +494,96 @@ export class GitHubService {
         sha: commitSha,
       });
     } catch (error: any) {
-      if (error?.status === 422) {
-        await this.octokit.git.updateRef({
-          owner,
-          repo,
-          ref: `heads/${branchName}`,
-          sha: commitSha,
-          force: true,
-        });
-      } else {
+      throw new GitHubError(
+        error?.status === 422
+          ? `Couldn't create branch '${branchName}'. Check it's a valid branch name that isn't taken.`
+          : 'Failed to create branch',
+        error?.status,
+        error
+      );
+    }
+  }
+
+  // move the branch to a commit on top of its head, never rewriting history
+  private async fastForwardBranch(
+    owner: string,
+    repo: string,
+    branchName: string,
+    commitSha: string
+  ) {
+    try {
+      await this.octokit.git.updateRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+        sha: commitSha,
+        force: false,
+      });
+    } catch (error) {
+      if (errorStatus(error) === 422) {
         throw new GitHubError(
-          'Failed to create or update branch',
-          error?.status,
+          `Branch '${branchName}' received new commits while updating. Please try again.`,
+          422,
           error
         );
       }
+      throw new GitHubError(
+        'Failed to update branch',
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
+  // the first free `<branch>-2`, `<branch>-3`, ... name
+  private async suggestBranchName(
+    owner: string,
+    repo: string,
+    branchName: string
+  ) {
+    for (let suffix = 2; ; suffix += 1) {
+      const candidate = `${branchName}-${suffix}`;
+      if (!(await this.getBranchHead(owner, repo, candidate))) {
+        return candidate;
+      }
     }
   }
 
+  // an existing branch may already have a pull request open against the base
+  private async findOpenPR(
+    owner: string,
+    repo: string,
+    branchName: string,
+    baseBranch: string
+  ) {
+    const { data: pullRequests } = await this.octokit.pulls.list({
+      owner,
+      repo,
+      state: 'open',
+      head: `${owner}:${branchName}`,
+      base: baseBranch,
+    });
+    return pullRequests[0];
+  }
+
   private async createPR(
     owner: string,
     repo: string,
     plan: IntegrationPlan,
     branchName: string,
-    baseBranch: string
+    baseBranch: string,
+    metadata: PullRequestMetadata,
+    draft = false
   ) {
     try {
       const { data: pullRequest } = await this.octokit.pulls.create({
         owner,
         repo,
         title: `[ProtoJam] ${plan.pullRequest.title}`,
-        body: this.formatPRDescription(plan),
+        body: formatPRDescription(plan, metadata),
         head: branchName,
         base: baseBranch,
+        draft,
       });
       return pullRequest;
     } catch (error: any) {
@@ -230,18 +602,220 @@ export class GitHubService {
     }
   }
 
-  private formatPRDescription(plan: IntegrationPlan): string {
-    const sections = [
-      plan.pullRequest.description,
-      '## Integration Details',
-      plan.pullRequest.route ? `- Route: \`${plan.pullRequest.route}\`` : null,
-      `- Files Modified: ${plan.pullRequest.files.length}`,
-      '',
-      '## Changes Overview',
-      ...plan.integrationSteps.map((step) => `### ${step}`),
-    ];
-
-    return sections.filter(Boolean).join('\n\n');
+  private async updatePR(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    plan: IntegrationPlan,
+    metadata: PullRequestMetadata
+  ) {
+    try {
+      const { data: pullRequest } = await this.octokit.pulls.update({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        title: `[ProtoJam] ${plan.pullRequest.title}`,
+        body: formatPRDescription(plan, metadata),
+      });
+      return pullRequest;
+    } catch (error) {
+      throw new GitHubError(
+        `Failed to update pull request #${pullNumber}`,
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
+  // best effort, a mistyped username shouldn't cost the pull request
+  private async applyPullRequestOptions(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options?: PullRequestOptions
+  ): Promise<string[]> {
+    if (!options) return [];
+    const warnings: string[] = [];
+    const attempt = async (
+      description: string,
+      request: () => Promise<unknown>
+    ) => {
+      try {
+        await request();
+      } catch (error) {
+        console.warn(`Failed to ${description}:`, error);
+        warnings.push(
+          `Couldn't ${description}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    };
+
+    // org/team entries are team reviewers
+    const users = options.reviewers.filter((name) => !name.includes('/'));
+    const teams = options.reviewers
+      .filter((name) => name.includes('/'))
+      .map((name) => name.split('/').pop()!);
+    if (users.length || teams.length) {
+      await attempt(
+        `request reviews from ${options.reviewers.join(', ')}`,
+        () =>
+          this.octokit.pulls.requestReviewers({
+            owner,
+            repo,
+            pull_number: pullNumber,
+            reviewers: users,
+            team_reviewers: teams,
+          })
+      );
+    }
+    if (options.labels.length) {
+      await attempt(`add labels ${options.labels.join(', ')}`, () =>
+        this.octokit.issues.addLabels({
+          owner,
+          repo,
+          issue_number: pullNumber,
+          labels: options.labels,
+        })
+      );
+    }
+    if (options.assignees.length) {
+      await attempt(`assign ${options.assignees.join(', ')}`, () =>
+        this.octokit.issues.addAssignees({
+          owner,
+          repo,
+          issue_number: pullNumber,
+          assignees: options.assignees,
+        })
+      );
+    }
+    return warnings;
+  }
+
+  // current content of each path at `ref`, or null when the file doesn't exist yet
+  public async getFileContents(
+    owner: string,
+    repo: string,
+    ref: string,
+    paths: string[],
+    missingOnError = false
+  ): Promise<Record<string, string | null>> {
+    const contents: Record<string, string | null> = {};
+
+    for (let i = 0; i < paths.length; i += CONTENT_BATCH_SIZE) {
+      const entries = await Promise.all(
+        paths.slice(i, i + CONTENT_BATCH_SIZE).map(async (path) => {
+          try {
+            const { data } = await this.octokit.repos.getContent({
+              owner,
+              repo,
+              path,
+              ref,
+            });
+            if (Array.isArray(data) || data.type !== 'file') {
+              return [path, null] as const;
+            }
+            return [
+              path,
+              Buffer.from(data.content, 'base64').toString('utf-8'),
+            ] as const;
+          } catch (error) {
+            if (errorStatus(error) === 404) {
+              return [path, null] as const;
+            }
+            if (missingOnError) {
+              console.warn(`Failed to fetch ${path}:`, error);
+              return [path, null] as const;
+            }
+            throw new GitHubError(
+              `Failed to fetch current content of ${path}`,
+              errorStatus(error),
+              error
+            );
+          }
+        })
+      );
+      Object.assign(contents, Object.fromEntries(entries));
+    }
+
+    return contents;
+  }
+
+  public async listProtoJamPullRequests(
+    owner: string,
+    repo: string
+  ): Promise<ExistingPullRequest[]> {
+    try {
+      const pullRequests = await this.octokit.paginate(
+        this.octokit.pulls.list,
+        { owner, repo, state: 'open', sort: 'updated', per_page: 100 }
+      );
+      return (
+        pullRequests
+          // branches from forks can't be pushed to with this token
+          .filter(
+            (pullRequest) =>
+              pullRequest.head.ref.startsWith(GitHubService.BRANCH_PREFIX) &&
+              pullRequest.head.repo?.full_name === `${owner}/${repo}`
+          )
+          .map((pullRequest) => ({
+            number: pullRequest.number,
+            title: pullRequest.title,
+            url: pullRequest.html_url,
+            branch: pullRequest.head.ref,
+            baseBranch: pullRequest.base.ref,
+            updatedAt: pullRequest.updated_at,
+          }))
+      );
+    } catch (error) {
+      throw new GitHubError(
+        'Failed to list open pull requests',
+        errorStatus(error),
+        error
+      );
+    }
+  }
+
+  public async getBranches(
+    owner: string,
+    repo: string
+  ): Promise<RepositoryBranches> {
+    try {
+      const { data: repository } = await this.octokit.repos.get({
+        owner,
+        repo,
+      });
+      const branches = await this.octokit.paginate(
+        this.octokit.repos.listBranches,
+        { owner, repo, per_page: 100 }
+      );
+      const defaultBranch = repository.default_branch;
+
+      return {
+        defaultBranch,
+        branches: [
+          defaultBranch,
+          ...branches
+            .map((branch) => branch.name)
+            .filter((name) => name !== defaultBranch)
+            .sort((a, b) => a.localeCompare(b)),
+        ],
+      };
+    } catch (error) {
+      if (errorStatus(error) === 404) {
+        throw new GitHubError(
+          `Repository ${owner}/${repo} not found or inaccessible`,
+          404,
+          error
+        );
+      }
+      throw new GitHubError(
+        'Failed to list branches',
+        errorStatus(error),
+        error
+      );
+    }
   }
 
   public async createPullRequest({
@@ -249,6 +823,11 @@ export class GitHubService {
     repo,
     plan,
     baseBranch,
+    baseSha: analyzedSha,
+    branchName: requestedBranch,
+    onBranchConflict,
+    metadata,
+    options,
   }: CreatePullRequestParams): Promise<PullRequestResult> {
     try {
       if (!plan.pullRequest.files?.length) {
@@ -265,53 +844,169 @@ export class GitHubService {
       const { sha: baseSha, treeSha: baseTreeSha } = await this.getBaseBranch(
         owner,
         repo,
-        baseBranch
+        baseBranch,
+        analyzedSha
       );
 
-      // Generate branch name
-      const branchName = this.generateBranchName(plan);
+      const initialBranch = requestedBranch || this.generateBranchName(plan);
+      let branchName = initialBranch;
+      let outcome: BranchOutcome = 'created';
+      let parent = { sha: baseSha, treeSha: baseTreeSha };
 
-      // Create tree with changes
-      const tree = await this.createGitTree(
+      // an existing branch is only ever added to, and only when asked to
+      const headSha = await this.getBranchHead(owner, repo, branchName);
+      if (headSha) {
+        if (onBranchConflict === 'new-branch') {
+          branchName = await this.suggestBranchName(owner, repo, branchName);
+          outcome = 'renamed';
+        } else if (onBranchConflict === 'fast-forward') {
+          parent = await this.getBaseBranch(owner, repo, branchName, headSha);
+          outcome = 'fast-forwarded';
+        } else {
+          throw new BranchConflictError({
+            branch: branchName,
+            headSha,
+            ...(await this.findForeignCommits(owner, repo, baseSha, headSha)),
+            suggestedBranch: await this.suggestBranchName(
+              owner,
+              repo,
+              branchName
+            ),
+          });
+        }
+      }
+
+      // Create the planned commits
+      const commitSha = await this.commitPlan(owner, repo, plan, parent);
+
+      if (outcome === 'fast-forwarded') {
+        await this.fastForwardBranch(owner, repo, branchName, commitSha);
+      } else {
+        await this.createBranch(owner, repo, branchName, commitSha);
+      }
+
+      // Reuse the pull request an existing branch already has
+      const existing =
+        outcome === 'fast-forwarded'
+          ? await this.findOpenPR(owner, repo, branchName, baseBranch)
+          : undefined;
+      // an existing pull request keeps its draft state
+      const pullRequest = existing
+        ? await this.updatePR(owner, repo, existing.number, plan, metadata)
+        : await this.createPR(
+            owner,
+            repo,
+            plan,
+            branchName,
+            baseBranch,
+            metadata,
+            options?.draft
+          );
+      const warnings = await this.applyPullRequestOptions(
         owner,
         repo,
-        baseTreeSha,
-        plan.pullRequest.files
+        pullRequest.number,
+        options
       );
 
-      // Create commit
-      const commit = await this.createCommit(
+      return {
+        url: pullRequest.html_url,
+        number: pullRequest.number,
+        branch: branchName,
+        commitSha,
+        outcome,
+        requestedBranch: outcome === 'renamed' ? initialBranch : undefined,
+        warnings,
+      };
+    } catch (error) {
+      if (error instanceof GitHubError) {
+        throw error;
+      }
+      throw new GitHubError(
+        'An unexpected error occurred while creating the pull request',
+        undefined,
+        error
+      );
+    }
+  }
+
+  // push the plan as a new commit on the pull request's branch and refresh its
+  // title and description
+  public async updatePullRequest({
+    owner,
+    repo,
+    plan,
+    pullNumber,
+    metadata,
+    options,
+  }: UpdatePullRequestParams): Promise<PullRequestResult> {
+    try {
+      if (!plan.pullRequest.files?.length) {
+        throw new GitHubError(
+          'Pull request plan must contain at least one file',
+          422
+        );
+      }
+
+      await this.validateRepository(owner, repo);
+
+      const { data: existing } = await this.octokit.pulls.get({
         owner,
         repo,
-        plan.pullRequest.title,
-        tree.sha,
-        baseSha
+        pull_number: pullNumber,
+      });
+      if (existing.state !== 'open') {
+        throw new GitHubError(
+          `Pull request #${pullNumber} is no longer open`,
+          422
+        );
+      }
+      const branchName = existing.head.ref;
+
+      const { sha: headSha, treeSha: headTreeSha } = await this.getBaseBranch(
+        owner,
+        repo,
+        branchName
       );
 
-      // Create or update branch
-      await this.createOrUpdateBranch(owner, repo, branchName, commit.sha);
+      const commitSha = await this.commitPlan(owner, repo, plan, {
+        sha: headSha,
+        treeSha: headTreeSha,
+      });
+
+      await this.fastForwardBranch(owner, repo, branchName, commitSha);
 
-      // Create pull request
-      const pullRequest = await this.createPR(
+      const pullRequest = await this.updatePR(
         owner,
         repo,
+        pullNumber,
         plan,
-        branchName,
-        baseBranch
+        metadata
+      );
+      const warnings = await this.applyPullRequestOptions(
+        owner,
+        repo,
+        pullNumber,
+        options
       );
 
       return {
         url: pullRequest.html_url,
         number: pullRequest.number,
         branch: branchName,
+        commitSha,
+        outcome: 'fast-forwarded',
+        warnings,
       };
     } catch (error) {
       if (error instanceof GitHubError) {
         throw error;
       }
       throw new GitHubError(
-        'An unexpected error occurred while creating the pull request',
-        undefined,
+        errorStatus(error) === 404
+          ? `Pull request #${pullNumber} not found`
+          : 'An unexpected error occurred while updating the pull request',
+        errorStatus(error),
         error
       );
     }
@@ -324,3 +1019,40 @@ export async function createPullRequest(
   const service = new GitHubService(params.token);
   return service.createPullRequest(params);
 }
+
+export async function updatePullRequest(
+  params: UpdatePullRequestParams
+): Promise<PullRequestResult> {
+  const service = new GitHubService(params.token);
+  return service.updatePullRequest(params);
+}
+
+export async function fetchProtoJamPullRequests({
+  owner,
+  repo,
+  token,
+}: RepositoryParams): Promise<ExistingPullRequest[]> {
+  const service = new GitHubService(token);
+  return service.listProtoJamPullRequests(owner, repo);
+}
+
+export async function fetchFileContents({
+  owner,
+  repo,
+  ref,
+  paths,
+  token,
+  missingOnError,
+}: FetchFileContentsParams): Promise<Record<string, string | null>> {
+  const service = new GitHubService(token);
+  return service.getFileContents(owner, repo, ref, paths, missingOnError);
+}
+
+export async function fetchBranches({
+  owner,
+  repo,
+  token,
+}: RepositoryParams): Promise<RepositoryBranches> {
+  const service = new GitHubService(token);
+  return service.getBranches(owner, repo);
+}
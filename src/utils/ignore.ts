@@ -0,0 +1,106 @@
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+export type IgnoreMatcher = (path: string, isDirectory?: boolean) => boolean;
+
+// convert a single glob (`*`, `**`, `?`, `[...]`) into an anchored regex source
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything below
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end > i) {
+        source += glob.slice(i, end + 1).replace('[!', '[^');
+        i = end;
+      } else {
+        source += '\\[';
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(glob)}$`);
+}
+
+// parse .gitignore-style patterns, optionally scoped to a nested directory
+export function parseIgnorePatterns(
+  patterns: string | string[],
+  baseDirectory = ''
+): IgnoreRule[] {
+  const lines = Array.isArray(patterns) ? patterns : patterns.split(/\r?\n/);
+  const base = baseDirectory.replace(/^\/+|\/+$/g, '');
+
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      let pattern = line;
+      const negate = pattern.startsWith('!');
+      if (negate) pattern = pattern.slice(1);
+
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+
+      // patterns with a slash anywhere but the end are relative to the .gitignore location
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\/+/, '');
+
+      const prefix = base ? `${globToRegExpSource(base)}/` : '';
+      const source = anchored
+        ? `${prefix}${globToRegExpSource(pattern)}`
+        : `${prefix}(?:.*/)?${globToRegExpSource(pattern)}`;
+
+      return {
+        regex: new RegExp(`^${source}$`),
+        negate,
+        directoryOnly,
+      };
+    });
+}
+
+export function createIgnoreMatcher(rules: IgnoreRule[]): IgnoreMatcher {
+  const matches = (path: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return (path, isDirectory = false) => {
+    const parts = path.split('/');
+    // a file cannot be re-included once one of its parent directories is excluded
+    for (let i = 1; i < parts.length; i += 1) {
+      if (matches(parts.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return matches(path, isDirectory);
+  };
+}
@@ -1,79 +1,188 @@
 import { Buffer } from 'buffer';
 import { z } from 'zod';
-import { generateObject } from 'ai';
-import { o3MiniModel } from './providers';
+import {
+  generateObject,
+  streamObject,
+  type DeepPartial,
+  type LanguageModelV1,
+} from 'ai';
+import {
+  CONTEXT_SIZE,
+  countTokens,
+  createModel,
+  defaultModelSettings,
+  trimPrompt,
+  type ModelSettings,
+} from './providers';
+import { RecursiveCharacterTextSplitter } from './text-splitter';
 import { systemPrompt } from './prompt';
+import { countChanges, diffLines } from './diff';
+import {
+  detectFramework,
+  frameworkPromptFragment,
+  getFrameworkStrategy,
+  type FrameworkDetection,
+  type FrameworkStrategy,
+} from './frameworks';
+import type { FileDiagnostic } from './typecheck';
 // Initialize OpenAI with global Buffer
 (window as any).Buffer = Buffer;
 
-const MODEL = o3MiniModel;
+export type PrototypeFile = {
+  path: string;
+  // base64 when encoding is set, binaries would be corrupted as text
+  content: string;
+  encoding?: 'base64';
+};
+
+interface TargetRepository {
+  name: string;
+  structure: Array<{
+    path: string;
+    type: 'file' | 'directory';
+    content?: string;
+  }>;
+  // detected from the structure when missing
+  framework?: FrameworkDetection;
+  // reviewed by the user, takes precedence over detection
+  analysis?: DirectoryAnalysis;
+  // the steps and files the integration plan fills in
+  pullRequestPlan?: PullRequestPlan;
+}
+
+export interface GenerationOptions {
+  settings?: ModelSettings;
+  abortSignal?: AbortSignal;
+}
+
+// thrown instead of the provider's abort error when the user cancels a request
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// binaries can't go in a prompt, the model only needs to know they exist
+function prototypeFileText(file: PrototypeFile) {
+  if (file.encoding === 'base64') {
+    const bytes = Math.floor((file.content.length * 3) / 4);
+    return `${file.path}: (binary file, ${bytes} bytes)`;
+  }
+  return `${file.path}:\n${file.content}`;
+}
+
+function formatPrototypeFiles(files: PrototypeFile[]) {
+  return files.map(prototypeFileText).join('\n');
+}
+
+function targetFramework(targetRepo: TargetRepository): FrameworkDetection {
+  const framework =
+    targetRepo.framework ?? detectFramework(targetRepo.structure);
+  if (!targetRepo.analysis) return framework;
+
+  return {
+    ...framework,
+    root: targetRepo.analysis.projectRoot,
+    routerType: targetRepo.analysis.routerType,
+    routesDirectory: targetRepo.analysis.routesDirectory,
+  };
+}
+
+function analysisPromptFragment(targetRepo: TargetRepository) {
+  if (!targetRepo.analysis) return '';
+  return `
+- Reviewed Analysis (confirmed by the user, follow it over your own reading of the structure and serve the prototype at prototypePath):
+${JSON.stringify(targetRepo.analysis, null, 2)}
+`;
+}
 
 const DirectoryAnalysisSchema = z.object({
-  nextjsRoot: z.string(),
-  pagesDirectory: z.string(),
+  projectRoot: z.string(),
+  routesDirectory: z.string(),
+  routerType: z.string(),
   prototypePath: z.string(),
   recommendations: z.array(z.string()),
   compatibility: z.object({
     framework: z.string(),
     styling: z.string(),
     dependencies: z.array(z.string()),
-    nextjsVersion: z.string(),
+    frameworkVersion: z.string(),
   }),
+  frameworkDetails: z.record(z.unknown()),
 });
 
 export type DirectoryAnalysis = z.infer<typeof DirectoryAnalysisSchema>;
 
+// narrow the generic fields to what the target framework supports
+function directoryAnalysisSchema(strategy: FrameworkStrategy) {
+  return DirectoryAnalysisSchema.extend({
+    routerType: z.enum(strategy.routerTypes),
+    frameworkDetails: z.object(strategy.analysisFields),
+  });
+}
+
 export async function analyzeDirectories(
-  prototypeFiles: Array<{ path: string; content: string }>,
-  targetRepo: {
-    name: string;
-    structure: Array<{
-      path: string;
-      type: 'file' | 'directory';
-      content?: string;
-    }>;
-  }
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository,
+  { settings = defaultModelSettings }: GenerationOptions = {}
 ): Promise<DirectoryAnalysis> {
-  const prompt = `Task:
-Analyze the target NextJS repository structure and prototype files to:
-1. Identify the NextJS root directory
-2. Determine if using pages/ or app/ directory
+  const framework = targetFramework(targetRepo);
+  const strategy = getFrameworkStrategy(framework.id);
+  const prompt = `${frameworkPromptFragment(framework)}
+
+Task:
+Analyze the target ${
+    strategy.label
+  } repository structure and prototype files to:
+1. Confirm the ${strategy.label} project root and routes directory
+2. Determine which routing convention the project uses (${strategy.routerTypes.join(
+    ', '
+  )})
 3. Generate a unique, SEO-friendly route path for the prototype
 4. Assess compatibility and required adaptations
 
 Prototype Files:
-${prototypeFiles.map((f) => `${f.path}:\n${f.content}`).join('\n')}
+${trimPrompt(
+  formatPrototypeFiles(prototypeFiles),
+  Math.floor(PROMPT_TOKEN_BUDGET / 2)
+)}
 
 Target Repository Structure:
-${JSON.stringify(targetRepo.structure, null, 2)}
+${trimPrompt(
+  JSON.stringify(targetRepo.structure, null, 2),
+  Math.floor(PROMPT_TOKEN_BUDGET / 2)
+)}
 
 Respond with a JSON object:
 {
-  "nextjsRoot": string,
-  "pagesDirectory": string,
+  "projectRoot": string,
+  "routesDirectory": string,
+  "routerType": string,
   "prototypePath": string,
   "recommendations": string[],
   "compatibility": {
     "framework": string,
     "styling": string,
     "dependencies": string[],
-    "nextjsVersion": string
-  }
+    "frameworkVersion": string
+  },
+  "frameworkDetails": object
 }`;
 
   try {
     const res = await generateObject({
-      model: MODEL,
+      model: createModel(settings),
       system: systemPrompt(),
       prompt,
-      schema: DirectoryAnalysisSchema,
+      schema: directoryAnalysisSchema(strategy),
     });
 
     return res.object;
   } catch (error) {
     console.error('Error analyzing directories:', error);
     throw new Error(
-      'Failed to analyze codebases. Please check your OpenAI API key and try again.'
+      'Failed to analyze codebases. Please check your model settings and API key and try again.'
     );
   }
 }
@@ -91,7 +200,9 @@ const PullRequestPlanSchema = z.object({
   files: z.array(
     z.object({
       path: z.string(),
-      content: z.string(),
+      description: z
+        .string()
+        .describe('What the file adds or changes, its contents come later'),
     })
   ),
   route: z.string(),
@@ -99,129 +210,886 @@ const PullRequestPlanSchema = z.object({
 
 export type PullRequestPlan = z.infer<typeof PullRequestPlanSchema>;
 
+function pullRequestPlanPromptFragment(targetRepo: TargetRepository) {
+  if (!targetRepo.pullRequestPlan) return '';
+  return `
+- Pull Request Plan (follow its steps and file locations, serve the prototype at its route and make one commit per step, in order):
+${JSON.stringify(targetRepo.pullRequestPlan, null, 2)}
+`;
+}
+
 export async function generatePullRequestPlan(
-  prototypeFiles: Array<{ path: string; content: string }>,
-  targetRepo: {
-    name: string;
-    structure: Array<{
-      path: string;
-      type: 'file' | 'directory';
-      content?: string;
-    }>;
-  }
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository,
+  { settings = defaultModelSettings, abortSignal }: GenerationOptions = {}
 ): Promise<PullRequestPlan> {
-  // First analyze directories
-  const analysis = await analyzeDirectories(prototypeFiles, targetRepo);
+  // First analyze directories, unless the user already reviewed an analysis
+  const analysis =
+    targetRepo.analysis ??
+    (await analyzeDirectories(prototypeFiles, targetRepo, { settings }));
+  const framework = targetFramework(targetRepo);
 
   const prompt = `Context:
 - Target Repository: ${targetRepo.name}
 - Analysis: ${JSON.stringify(analysis, null, 2)}
 
+${frameworkPromptFragment(framework)}
+
 Task:
-Create a detailed pull request plan for NextJS integration:
+Create a detailed pull request plan for ${
+    getFrameworkStrategy(framework.id).label
+  } integration:
 1. Clear title and description explaining the prototype integration
-2. Step-by-step guide for adding the prototype as a new page
+2. Step-by-step guide for adding the prototype as a new page, each step small enough for one commit
 3. Required file changes and their locations
 4. Testing guidelines
 
 Prototype Files:
-${prototypeFiles.map((f) => `${f.path}:\n${f.content}`).join('\n')}`;
+${trimPrompt(formatPrototypeFiles(prototypeFiles), PROMPT_TOKEN_BUDGET)}`;
 
   try {
     const res = await generateObject({
-      model: MODEL,
+      model: createModel(settings),
       system: systemPrompt(),
       prompt,
       schema: PullRequestPlanSchema,
+      abortSignal,
     });
 
     return res.object;
   } catch (error) {
+    if (abortSignal?.aborted) throw new GenerationCancelledError();
     console.error('Error generating pull request plan:', error);
     throw new Error(
-      'Failed to generate integration plan. Please check your OpenAI API key and try again.'
+      'Failed to generate integration plan. Please check your model settings and API key and try again.'
     );
   }
 }
 
-const IntegrationPlanSchema = z.object({
-  targetDirectory: z.string(),
-  integrationSteps: z.array(z.string()),
-  pullRequest: z.object({
-    title: z.string(),
-    description: z.string(),
-    files: z.array(
-      z.object({
-        path: z.string(),
-        content: z.string(),
-      })
+export const FILE_OPERATIONS = [
+  'create',
+  'modify',
+  'delete',
+  'rename',
+] as const;
+export type FileOperation = (typeof FILE_OPERATIONS)[number];
+// git only tracks regular and executable files
+export type FileMode = '100644' | '100755';
+
+const fileChangeFields = {
+  path: z.string().describe('Path of the file after the change'),
+  operation: z
+    .enum(FILE_OPERATIONS)
+    .describe(
+      'create a new file, modify an existing one, delete one, or rename previousPath to path'
+    ),
+  previousPath: z
+    .string()
+    .describe('The existing path of a renamed file, empty otherwise'),
+  mode: z
+    .enum(['100644', '100755'])
+    .describe('100755 for executable scripts, 100644 for everything else'),
+};
+
+const PlanFileSchema = z.object({
+  ...fileChangeFields,
+  content: z
+    .string()
+    .describe(
+      'Complete file contents after the change, empty for deletions and for renames that keep the contents'
     ),
-    route: z.string(),
-  }),
 });
 
-export type IntegrationPlan = z.infer<typeof IntegrationPlanSchema>;
+const PlanCommitSchema = z.object({
+  message: z.string().describe('Commit message, a short imperative summary'),
+  files: z.array(z.string()).describe('Paths of the files this commit changes'),
+});
 
-export async function generateIntegrationPlan(
-  prototypeFiles: Array<{ path: string; content: string }>,
-  targetRepo: {
-    name: string;
-    structure: Array<{
-      path: string;
-      type: 'file' | 'directory';
-      content?: string;
-    }>;
-  }
-): Promise<IntegrationPlan> {
-  const _systemPrompt =
+const planCommitsSchema = z
+  .array(PlanCommitSchema)
+  .describe(
+    'The files grouped into ordered commits that follow the integration steps, for example adding dependencies, components, the route, then wiring navigation. Every file belongs to exactly one commit'
+  );
+
+export type PlanCommit = z.infer<typeof PlanCommitSchema>;
+
+const testingGuidelinesSchema = z
+  .array(z.string())
+  .describe(
+    'Checks a reviewer should do to verify the integration, each a single short step'
+  );
+
+// bump when the integration prompts or schemas change, it's recorded in each pull request
+export const PROMPT_VERSION = '3';
+
+function integrationPlanSchema(strategy: FrameworkStrategy) {
+  return z.object({
+    targetDirectory: z.string(),
+    integrationSteps: z.array(z.string()),
+    testingGuidelines: testingGuidelinesSchema,
+    pullRequest: z.object({
+      title: z.string(),
+      description: z.string(),
+      files: z.array(PlanFileSchema),
+      route: z.string().describe('URL path the prototype is served at'),
+      routeFile: z.string().describe(strategy.routeFileDescription),
+      commits: planCommitsSchema,
+    }),
+  });
+}
+
+type GeneratedIntegrationPlan = z.infer<
+  ReturnType<typeof integrationPlanSchema>
+>;
+
+// generated files are always text, binary assets are added to the plan afterwards.
+// files without an operation are written in place
+export type PlanFile = PrototypeFile & {
+  operation?: FileOperation;
+  previousPath?: string;
+  mode?: FileMode;
+};
+
+// where the file's current content lives in the target repository
+export function sourcePath(
+  file: Pick<PlanFile, 'path' | 'operation' | 'previousPath'>
+) {
+  return file.operation === 'rename' && file.previousPath
+    ? file.previousPath
+    : file.path;
+}
+
+// the file's content once the change is applied
+export function resultContent(file: PlanFile) {
+  return file.operation === 'delete' ? '' : file.content;
+}
+
+export type IntegrationPlan = Omit<GeneratedIntegrationPlan, 'pullRequest'> & {
+  pullRequest: Omit<
+    GeneratedIntegrationPlan['pullRequest'],
+    'files' | 'commits'
+  > & {
+    files: PlanFile[];
+    // a single commit with every file when missing
+    commits?: PlanCommit[];
+  };
+};
+
+// leave room in the context window for the model's response
+const RESPONSE_TOKEN_RESERVE = 16_000;
+const PROMPT_TOKEN_BUDGET = CONTEXT_SIZE - RESPONSE_TOKEN_RESERVE;
+const SUMMARY_CHUNK_TOKENS = Math.min(24_000, PROMPT_TOKEN_BUDGET);
+// ~3 characters per token, same estimate trimPrompt uses
+const CHARS_PER_TOKEN = 3;
+
+export type PartialIntegrationPlan = DeepPartial<IntegrationPlan>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  // counted from the streamed text until the provider reports the real usage
+  completionTokens: number;
+}
+
+export interface IntegrationPlanOptions extends GenerationOptions {
+  onProgress?: (message: string) => void;
+  // the plan as far as it has been streamed
+  onPartialPlan?: (plan: PartialIntegrationPlan) => void;
+  // totals across every request of the run
+  onUsage?: (usage: TokenUsage) => void;
+  // current contents at the analyzed commit, null for missing files. Files
+  // generated one at a time need them to keep what a change doesn't touch
+  loadFiles?: (paths: string[]) => Promise<Record<string, string | null>>;
+}
+
+type StreamObject = <T>(
+  request: {
+    system: string;
+    prompt: string;
+    schema: z.Schema<T, z.ZodTypeDef, unknown>;
+  },
+  onPartial?: (partial: DeepPartial<T>) => void
+) => Promise<T>;
+
+// streams each request of a generation run and keeps the token totals
+function createObjectStreamer(
+  model: LanguageModelV1,
+  { abortSignal, onUsage }: IntegrationPlanOptions
+): StreamObject {
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  return async ({ system, prompt, schema }, onPartial) => {
+    const usage: TokenUsage = {
+      promptTokens: countTokens(system) + countTokens(prompt),
+      completionTokens: 0,
+    };
+    const report = () =>
+      onUsage?.({
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+      });
+    report();
+
+    const result = streamObject({ model, system, prompt, schema, abortSignal });
+    for await (const part of result.fullStream) {
+      if (part.type === 'object') {
+        onPartial?.(part.object);
+      } else if (part.type === 'text-delta') {
+        usage.completionTokens += countTokens(part.textDelta);
+        report();
+      } else if (part.type === 'error') {
+        throw part.error;
+      } else if (part.type === 'finish') {
+        // some providers don't report usage while streaming
+        if (Number.isFinite(part.usage.promptTokens)) {
+          usage.promptTokens = part.usage.promptTokens;
+        }
+        if (Number.isFinite(part.usage.completionTokens)) {
+          usage.completionTokens = part.usage.completionTokens;
+        }
+      }
+    }
+
+    const object = await result.object;
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    report();
+    return object;
+  };
+}
+
+export interface TokenEstimate {
+  promptTokens: number;
+  budget: number;
+  strategy: 'single-pass' | 'chunked';
+  chunks: number;
+}
+
+function integrationSystemPrompt(framework: FrameworkDetection) {
+  return (
     systemPrompt() +
-    `You are an expert software developer tasked with integrating a prototype app into a legacy NextJS codebase.`;
+    `You are an expert software developer tasked with integrating a prototype app into a legacy ${
+      getFrameworkStrategy(framework.id).label
+    } codebase.
 
-  const prompt = `Context:
+${frameworkPromptFragment(framework)}`
+  );
+}
+
+function buildIntegrationPrompt(
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository
+) {
+  const strategy = getFrameworkStrategy(targetFramework(targetRepo).id);
+  return `Context:
 - Target Repository: ${targetRepo.name}
 - Target Repository Structure: 
 ${JSON.stringify(targetRepo.structure, null, 2)}
 
 - Prototype Files:
-${prototypeFiles.map((f) => `${f.path}:\n${f.content}`).join('\n')}
-
+${formatPrototypeFiles(prototypeFiles)}
+${analysisPromptFragment(targetRepo)}${pullRequestPlanPromptFragment(targetRepo)}
 Task:
-1. Analyze the target NextJS repository structure and prototype files 
+1. Analyze the target ${
+    strategy.label
+  } repository structure and prototype files 
 2. Identify the best directory to place the prototype app
 3. Provide step-by-step instructions to build and deploy the integrated prototype app
 4. Generate a pull request title and description for integrating the prototype
-5. Provide the necessary files to be included in the pull request
+5. Provide the necessary files to be included in the pull request, following the routing conventions above. Mark each file as created, modified, deleted or renamed, and give executable scripts mode 100755
+6. Group the files into ordered commits that follow the integration steps
+7. List the checks a reviewer should do to test the integration
 
 Respond with a JSON object containing:
 {
   "targetDirectory": string,
   "integrationSteps": string[],
+  "testingGuidelines": string[],
   "pullRequest": {
     "title": string,
     "description": string,
     "route": string,
+    "routeFile": string,
+    "commits": [{ "message": string, "files": string[] }],
     "files": [
       {
         "path": string,
+        "operation": "create" | "modify" | "delete" | "rename",
+        "previousPath": string,
+        "mode": "100644" | "100755",
         "content": string
       }
     ]
   }
 }`;
+}
+
+// group prototype files into chunks that each fit in a single summary call
+function chunkPrototypeFiles(files: PrototypeFile[]): string[] {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: SUMMARY_CHUNK_TOKENS * CHARS_PER_TOKEN,
+    chunkOverlap: 200,
+  });
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = '';
+    currentTokens = 0;
+  };
+
+  files.forEach((file) => {
+    const text = `${prototypeFileText(file)}\n`;
+    const tokens = countTokens(text);
+
+    if (tokens > SUMMARY_CHUNK_TOKENS && file.encoding !== 'base64') {
+      flush();
+      const parts = splitter.splitText(file.content);
+      parts.forEach((part, index) => {
+        chunks.push(
+          `${file.path} (part ${index + 1} of ${parts.length}):\n${part}\n`
+        );
+      });
+      return;
+    }
+
+    if (currentTokens + tokens > SUMMARY_CHUNK_TOKENS) {
+      flush();
+    }
+    current += text;
+    currentTokens += tokens;
+  });
+  flush();
+
+  return chunks;
+}
+
+export function estimateIntegrationTokens(
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository
+): TokenEstimate {
+  const promptTokens =
+    countTokens(integrationSystemPrompt(targetFramework(targetRepo))) +
+    countTokens(buildIntegrationPrompt(prototypeFiles, targetRepo));
+
+  if (promptTokens <= PROMPT_TOKEN_BUDGET) {
+    return {
+      promptTokens,
+      budget: PROMPT_TOKEN_BUDGET,
+      strategy: 'single-pass',
+      chunks: 1,
+    };
+  }
+
+  return {
+    promptTokens,
+    budget: PROMPT_TOKEN_BUDGET,
+    strategy: 'chunked',
+    chunks: chunkPrototypeFiles(prototypeFiles).length,
+  };
+}
+
+const PrototypeSummarySchema = z.object({
+  files: z.array(
+    z.object({
+      path: z.string(),
+      purpose: z.string(),
+      exports: z.array(z.string()),
+      dependencies: z.array(z.string()),
+      notes: z.string(),
+    })
+  ),
+});
+
+type PrototypeSummary = z.infer<typeof PrototypeSummarySchema>['files'];
+
+// a file split across chunks is summarized once per part
+function mergeSummaries(summaries: PrototypeSummary): PrototypeSummary {
+  const byPath = new Map<string, PrototypeSummary[number]>();
+  summaries.forEach((summary) => {
+    const existing = byPath.get(summary.path);
+    byPath.set(
+      summary.path,
+      existing
+        ? {
+            path: summary.path,
+            purpose: [existing.purpose, summary.purpose].join(' '),
+            exports: [...new Set([...existing.exports, ...summary.exports])],
+            dependencies: [
+              ...new Set([...existing.dependencies, ...summary.dependencies]),
+            ],
+            notes: [existing.notes, summary.notes].filter(Boolean).join(' '),
+          }
+        : summary
+    );
+  });
+  return [...byPath.values()];
+}
+
+const IntegrationOutlineSchema = z.object({
+  targetDirectory: z.string(),
+  integrationSteps: z.array(z.string()),
+  testingGuidelines: testingGuidelinesSchema,
+  pullRequest: z.object({
+    title: z.string(),
+    description: z.string(),
+    route: z.string(),
+    routeFile: z.string(),
+    files: z.array(
+      z.object({
+        ...fileChangeFields,
+        description: z.string(),
+        sourceFiles: z.array(z.string()),
+      })
+    ),
+    commits: planCommitsSchema,
+  }),
+});
+
+const GeneratedFileSchema = z.object({
+  content: z.string(),
+});
+
+async function summarizePrototype(
+  stream: StreamObject,
+  prototypeFiles: PrototypeFile[],
+  onProgress?: (message: string) => void
+): Promise<PrototypeSummary> {
+  const chunks = chunkPrototypeFiles(prototypeFiles);
+  const summaries: PrototypeSummary = [];
+
+  for (const [index, chunk] of chunks.entries()) {
+    onProgress?.(
+      `Summarizing prototype files (${index + 1}/${chunks.length})...`
+    );
+    const summary = await stream({
+      system: systemPrompt(),
+      prompt: `Task:
+Summarize each prototype file below so it can be integrated later without re-reading the source.
+For every file, describe its purpose, exported components/functions, imported dependencies and any notes on state, data fetching or styling.
+Files split into parts should be summarized once, using the original path.
+
+Prototype Files:
+${chunk}`,
+      schema: PrototypeSummarySchema,
+    });
+    summaries.push(...summary.files);
+  }
+
+  return mergeSummaries(summaries);
+}
+
+async function generateChunkedIntegrationPlan(
+  stream: StreamObject,
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository,
+  { onProgress, onPartialPlan, loadFiles }: IntegrationPlanOptions
+): Promise<IntegrationPlan> {
+  const framework = targetFramework(targetRepo);
+  const strategy = getFrameworkStrategy(framework.id);
+  const summaries = await summarizePrototype(
+    stream,
+    prototypeFiles,
+    onProgress
+  );
+  const summaryText = trimPrompt(
+    JSON.stringify(summaries, null, 2),
+    Math.floor(PROMPT_TOKEN_BUDGET / 2)
+  );
+  const structureText = trimPrompt(
+    JSON.stringify(targetRepo.structure, null, 2),
+    Math.floor(PROMPT_TOKEN_BUDGET / 2)
+  );
+
+  onProgress?.('Planning integration from summaries...');
+  // the outline streams in with file paths only, contents follow per file
+  const partialPlan = (
+    partial: DeepPartial<z.infer<typeof IntegrationOutlineSchema>>,
+    files: DeepPartial<PlanFile>[] = []
+  ): PartialIntegrationPlan => ({
+    targetDirectory: partial.targetDirectory,
+    integrationSteps: partial.integrationSteps,
+    testingGuidelines: partial.testingGuidelines,
+    pullRequest: {
+      title: partial.pullRequest?.title,
+      description: partial.pullRequest?.description,
+      route: partial.pullRequest?.route,
+      routeFile: partial.pullRequest?.routeFile,
+      commits: partial.pullRequest?.commits,
+      files: [
+        ...files,
+        ...(partial.pullRequest?.files || [])
+          .slice(files.length)
+          .map((file) => ({ path: file?.path, operation: file?.operation })),
+      ],
+    },
+  });
+  const outline = await stream(
+    {
+      system: integrationSystemPrompt(framework),
+      prompt: `Context:
+- Target Repository: ${targetRepo.name}
+- Target Repository Structure: 
+${structureText}
+
+- Prototype File Summaries:
+${summaryText}
+${analysisPromptFragment(targetRepo)}${pullRequestPlanPromptFragment(targetRepo)}
+Task:
+1. Analyze the target ${
+        strategy.label
+      } repository structure and the prototype summaries
+2. Identify the best directory to place the prototype app
+3. Provide step-by-step instructions to build and deploy the integrated prototype app
+4. Generate a pull request title and description for integrating the prototype
+5. List every file the pull request needs, following the routing conventions above, with its operation and mode, a description of its contents and the prototype source files it is derived from
+6. Group the files into ordered commits that follow the integration steps
+7. List the checks a reviewer should do to test the integration
+8. Set routeFile to ${strategy.routeFileDescription.replace(/^The/, 'the')}`,
+      schema: IntegrationOutlineSchema,
+    },
+    (partial) => onPartialPlan?.(partialPlan(partial))
+  );
+
+  // every file call sees the whole plan, but only the paths of its sibling files
+  const outlineText = JSON.stringify(
+    {
+      ...outline,
+      pullRequest: {
+        ...outline.pullRequest,
+        files: outline.pullRequest.files.map((f) => f.path),
+      },
+    },
+    null,
+    2
+  );
+  // changed files are rewritten whole, so each call sees what it's changing
+  const existingPaths = outline.pullRequest.files
+    .filter(
+      (file) => file.operation === 'modify' || file.operation === 'rename'
+    )
+    .map(sourcePath);
+  const currentContents: Record<string, string | null> = Object.fromEntries(
+    targetRepo.structure
+      .filter(
+        (entry) =>
+          entry.content !== undefined && existingPaths.includes(entry.path)
+      )
+      .map((entry) => [entry.path, entry.content!])
+  );
+  const unloaded = existingPaths.filter((path) => !(path in currentContents));
+  if (loadFiles && unloaded.length) {
+    Object.assign(currentContents, await loadFiles(unloaded));
+  }
+
+  const files: IntegrationPlan['pullRequest']['files'] = [];
+  for (const [index, file] of outline.pullRequest.files.entries()) {
+    const { operation, previousPath, mode } = file;
+    if (operation === 'delete') {
+      files.push({
+        path: file.path,
+        operation,
+        previousPath,
+        mode,
+        content: '',
+      });
+      continue;
+    }
+    onProgress?.(
+      `Generating ${file.path} (${index + 1}/${
+        outline.pullRequest.files.length
+      })...`
+    );
+    const sources = trimPrompt(
+      formatPrototypeFiles(
+        prototypeFiles.filter((f) => file.sourceFiles.includes(f.path))
+      ),
+      Math.floor(PROMPT_TOKEN_BUDGET / 2)
+    );
+    const current = currentContents[sourcePath(file)];
+    const generated = await stream(
+      {
+        system: integrationSystemPrompt(framework),
+        prompt: `Context:
+- Target Repository: ${targetRepo.name}
+- Integration Plan:
+${outlineText}
+
+Task:
+Write the complete contents of \`${file.path}\`.
+${file.description}
+
+Prototype Source Files:
+${sources || 'None, write the file from the plan alone.'}${
+          current
+            ? `
+
+Current Contents of \`${sourcePath(file)}\` (keep everything the change doesn't touch):
+${trimPrompt(current, Math.floor(PROMPT_TOKEN_BUDGET / 4))}`
+            : ''
+        }`,
+        schema: GeneratedFileSchema,
+      },
+      (partial) =>
+        onPartialPlan?.(
+          partialPlan(outline, [
+            ...files,
+            { path: file.path, operation, content: partial.content },
+          ])
+        )
+    );
+    files.push({
+      path: file.path,
+      operation,
+      previousPath,
+      mode,
+      content: generated.content,
+    });
+  }
+
+  return {
+    targetDirectory: outline.targetDirectory,
+    integrationSteps: outline.integrationSteps,
+    testingGuidelines: outline.testingGuidelines,
+    pullRequest: {
+      title: outline.pullRequest.title,
+      description: outline.pullRequest.description,
+      route: outline.pullRequest.route,
+      routeFile: outline.pullRequest.routeFile,
+      files,
+      commits: outline.pullRequest.commits,
+    },
+  };
+}
+
+export async function generateIntegrationPlan(
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository,
+  options: IntegrationPlanOptions = {}
+): Promise<IntegrationPlan> {
+  const {
+    settings = defaultModelSettings,
+    abortSignal,
+    onPartialPlan,
+  } = options;
+  const stream = createObjectStreamer(createModel(settings), options);
+  const framework = targetFramework(targetRepo);
+  const estimate = estimateIntegrationTokens(prototypeFiles, targetRepo);
+
+  try {
+    if (estimate.strategy === 'chunked') {
+      return await generateChunkedIntegrationPlan(
+        stream,
+        prototypeFiles,
+        targetRepo,
+        options
+      );
+    }
+
+    return await stream(
+      {
+        system: integrationSystemPrompt(framework),
+        prompt: buildIntegrationPrompt(prototypeFiles, targetRepo),
+        schema: integrationPlanSchema(getFrameworkStrategy(framework.id)),
+      },
+      onPartialPlan
+    );
+  } catch (error) {
+    if (abortSignal?.aborted) throw new GenerationCancelledError();
+    console.error('Error generating integration plan:', error);
+    throw new Error(
+      'Failed to generate integration plan. Please check your model settings and API key and try again.'
+    );
+  }
+}
+
+export async function refineIntegrationPlan(
+  plan: IntegrationPlan,
+  feedback: string,
+  previousFeedback: string[],
+  prototypeFiles: PrototypeFile[],
+  targetRepo: TargetRepository,
+  { settings = defaultModelSettings }: GenerationOptions = {}
+): Promise<IntegrationPlan> {
+  const framework = targetFramework(targetRepo);
+  // binary assets stay out of the prompt and are carried over unchanged
+  const assets = plan.pullRequest.files.filter(
+    (file) => file.encoding === 'base64'
+  );
+  const planText = JSON.stringify(
+    {
+      ...plan,
+      pullRequest: {
+        ...plan.pullRequest,
+        files: plan.pullRequest.files.filter(
+          (file) => file.encoding !== 'base64'
+        ),
+      },
+    },
+    null,
+    2
+  );
+  // the current plan is never trimmed, the rest shares what's left of the budget
+  const remainingBudget = Math.max(
+    0,
+    PROMPT_TOKEN_BUDGET - countTokens(planText)
+  );
+  const structureText = trimPrompt(
+    JSON.stringify(targetRepo.structure, null, 2),
+    Math.floor(remainingBudget / 2)
+  );
+  const prototypeText = trimPrompt(
+    formatPrototypeFiles(prototypeFiles),
+    Math.floor(remainingBudget / 2)
+  );
+
+  const prompt = `Context:
+- Target Repository: ${targetRepo.name}
+- Target Repository Structure: 
+${structureText}
+
+- Prototype Files:
+${prototypeText}
+${analysisPromptFragment(targetRepo)}${pullRequestPlanPromptFragment(targetRepo)}
+- Current Integration Plan:
+${planText}
+${
+  previousFeedback.length
+    ? `
+- Feedback Already Applied:
+${previousFeedback.map((f, i) => `${i + 1}. ${f}`).join('\n')}
+`
+    : ''
+}
+Task:
+Revise the current integration plan according to this reviewer feedback:
+"""
+${feedback}
+"""
+
+Keep everything the feedback doesn't ask to change exactly as it is, including file contents.
+Return the complete revised plan, with every file that should be part of the pull request.`;
 
   try {
     const res = await generateObject({
-      model: MODEL,
-      system: _systemPrompt,
+      model: createModel(settings),
+      system: integrationSystemPrompt(framework),
       prompt,
-      schema: IntegrationPlanSchema,
+      schema: integrationPlanSchema(getFrameworkStrategy(framework.id)),
     });
 
-    return res.object;
+    const paths = new Set(res.object.pullRequest.files.map((f) => f.path));
+    return {
+      ...res.object,
+      pullRequest: {
+        ...res.object.pullRequest,
+        files: [
+          ...res.object.pullRequest.files,
+          ...assets.filter((asset) => !paths.has(asset.path)),
+        ],
+      },
+    };
   } catch (error) {
-    console.error('Error generating integration plan:', error);
+    console.error('Error refining integration plan:', error);
+    throw new Error(
+      'Failed to revise integration plan. Please check your model settings and API key and try again.'
+    );
+  }
+}
+
+const RepairSchema = z.object({
+  files: z.array(
+    z.object({
+      path: z.string().describe('Path of one of the files with problems'),
+      content: z.string().describe('Complete corrected file contents'),
+      reason: z
+        .string()
+        .describe('What was wrong and how the change fixes it, one sentence'),
+    })
+  ),
+});
+
+export type RepairedFile = z.infer<typeof RepairSchema>['files'][number];
+
+export async function repairIntegrationFiles(
+  plan: IntegrationPlan,
+  diagnostics: FileDiagnostic[],
+  targetRepo: TargetRepository,
+  { settings = defaultModelSettings, abortSignal }: GenerationOptions = {}
+): Promise<RepairedFile[]> {
+  const framework = targetFramework(targetRepo);
+  const broken = new Set(diagnostics.map((diagnostic) => diagnostic.path));
+  const textFiles = plan.pullRequest.files.filter(
+    (file) => file.encoding !== 'base64' && file.operation !== 'delete'
+  );
+  const offending = textFiles.filter(
+    (file) => broken.has(file.path) && file.content
+  );
+  if (offending.length === 0) return [];
+
+  const problemsText = diagnostics
+    .filter((diagnostic) => broken.has(diagnostic.path))
+    .map(
+      ({ path, line, column, message }) =>
+        `${path}:${line}:${column} ${message}`
+    )
+    .join('\n');
+  const offendingText = offending
+    .map((file) => `${file.path}:\n${file.content}`)
+    .join('\n\n');
+  // the broken files are never trimmed, the rest shares what's left of the budget
+  const remainingBudget = Math.max(
+    0,
+    PROMPT_TOKEN_BUDGET - countTokens(offendingText) - countTokens(problemsText)
+  );
+  const siblingsText = trimPrompt(
+    textFiles
+      .filter((file) => !broken.has(file.path))
+      .map((file) => `${file.path}:\n${resultContent(file)}`)
+      .join('\n\n'),
+    Math.floor(remainingBudget / 2)
+  );
+  const structureText = trimPrompt(
+    JSON.stringify(targetRepo.structure, null, 2),
+    Math.floor(remainingBudget / 2)
+  );
+
+  const prompt = `Context:
+- Target Repository: ${targetRepo.name}
+- Target Repository Structure:
+${structureText}
+
+- Other Files In The Pull Request:
+${siblingsText || 'None'}
+
+- Files With Problems:
+${offendingText}
+
+- Problems Reported By The TypeScript Compiler And Import Checks:
+${problemsText}
+
+Task:
+Fix every problem above with the smallest possible change to the files with problems.
+Imports must point at files that exist in the target repository or the pull request, or at packages its package.json already declares.
+Don't change what the files do and don't silence errors with \`any\` or \`@ts-ignore\`.
+Return each file you changed with its complete contents and the reason for the change. Leave out files you didn't change.`;
+
+  try {
+    const res = await generateObject({
+      model: createModel(settings),
+      system: integrationSystemPrompt(framework),
+      prompt,
+      schema: RepairSchema,
+      abortSignal,
+    });
+
+    return res.object.files.filter((file) => broken.has(file.path));
+  } catch (error) {
+    if (abortSignal?.aborted) throw new GenerationCancelledError();
+    console.error('Error repairing integration files:', error);
     throw new Error(
-      'Failed to generate integration plan. Please check your OpenAI API key and try again.'
+      'Failed to repair the generated files. Please check your model settings and API key and try again.'
     );
   }
 }
@@ -260,17 +1128,19 @@ export function calculateFileChanges(
   files: Array<{ path: string; content: string }>,
   existingFiles: Array<{ path: string; content: string }>
 ): { additions: number; deletions: number } {
-  const additions = files.reduce((sum, file) => {
-    const lines = file.content.split('\n').length;
-    return sum + lines;
-  }, 0);
-
-  const deletions = existingFiles.reduce((sum, file) => {
-    const lines = file.content.split('\n').length;
-    return sum + lines;
-  }, 0);
-
-  return { additions, deletions };
+  return files.reduce(
+    (totals, file) => {
+      const existing = existingFiles.find((f) => f.path === file.path);
+      const { additions, deletions } = countChanges(
+        diffLines(existing?.content ?? '', file.content)
+      );
+      return {
+        additions: totals.additions + additions,
+        deletions: totals.deletions + deletions,
+      };
+    },
+    { additions: 0, deletions: 0 }
+  );
 }
 
 export function extractDependencies(content: string): string[] {
@@ -287,6 +1157,15 @@ export function extractDependencies(content: string): string[] {
     }
   }
 
+  // Match side-effect and dynamic imports
+  const bareImportRegex = /import\s*\(?\s*['"]([^'"]+)['"]/g;
+  while ((match = bareImportRegex.exec(content)) !== null) {
+    const dep = match[1];
+    if (!dep.startsWith('.')) {
+      dependencies.push(dep);
+    }
+  }
+
   // Match require statements
   const requireRegex = /require\(['"]([^'"]+)['"]\)/g;
   while ((match = requireRegex.exec(content)) !== null) {
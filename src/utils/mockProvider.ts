@@ -0,0 +1,185 @@
+import type { LanguageModelV1 } from 'ai';
+
+type CallOptions = Parameters<LanguageModelV1['doGenerate']>[0];
+
+interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMFixture {
+  hash: string;
+  modelId: string;
+  recordedAt: string;
+  prompt: unknown;
+  text: string;
+  usage: Usage;
+}
+
+// endpoint served by the llm-fixtures plugin in vite.config.ts
+const RECORD_ENDPOINT = '/__fixtures/llm';
+
+const fixtures = new Map(
+  Object.values(
+    import.meta.glob<LLMFixture>('../../fixtures/llm/*.json', {
+      eager: true,
+      import: 'default',
+    })
+  ).map((fixture) => [fixture.hash, fixture])
+);
+
+// system prompts embed the current time, which would change the hash on every run
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+
+function normalizePrompt(options: CallOptions): unknown {
+  const schema =
+    options.mode.type === 'object-json' ? options.mode.schema : undefined;
+  return JSON.parse(
+    JSON.stringify({ prompt: options.prompt, schema }).replace(
+      TIMESTAMP_PATTERN,
+      '<timestamp>'
+    )
+  );
+}
+
+export async function hashPrompt(options: CallOptions): Promise<string> {
+  const data = new TextEncoder().encode(
+    JSON.stringify(normalizePrompt(options))
+  );
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, 24);
+}
+
+// forward a call made against the mock's json mode to a real model
+async function generateWithModel(
+  model: LanguageModelV1,
+  options: CallOptions
+): Promise<{ text: string; usage: Usage }> {
+  if (options.mode.type === 'object-json' && options.mode.schema) {
+    if (model.defaultObjectGenerationMode === 'tool') {
+      const result = await model.doGenerate({
+        ...options,
+        mode: {
+          type: 'object-tool',
+          tool: {
+            type: 'function',
+            name: 'json',
+            description: 'Respond with a JSON object.',
+            parameters: options.mode.schema,
+          },
+        },
+      });
+      return { text: result.toolCalls?.[0]?.args ?? '', usage: result.usage };
+    }
+
+    if (!model.supportsStructuredOutputs) {
+      const instruction = `JSON schema:\n${JSON.stringify(
+        options.mode.schema
+      )}\nYou MUST answer with a JSON object that matches the JSON schema above.`;
+      const result = await model.doGenerate({
+        ...options,
+        prompt: [{ role: 'system', content: instruction }, ...options.prompt],
+      });
+      return { text: result.text ?? '', usage: result.usage };
+    }
+  }
+
+  const result = await model.doGenerate(options);
+  return { text: result.text ?? '', usage: result.usage };
+}
+
+async function saveFixture(fixture: LLMFixture) {
+  const response = await fetch(`${RECORD_ENDPOINT}/${fixture.hash}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fixture, null, 2),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to record LLM fixture ${fixture.hash}. Recording only works against the Vite dev server.`
+    );
+  }
+  fixtures.set(fixture.hash, fixture);
+}
+
+// streamed replies are cut into pieces of this many characters
+const STREAM_CHUNK_SIZE = 64;
+
+// replays responses from fixtures/llm keyed by prompt hash, or records them
+// from a real model when `record` is given
+export function createMockModel({
+  record,
+}: { record?: LanguageModelV1 } = {}): LanguageModelV1 {
+  const loadFixture = async (options: CallOptions) => {
+    const hash = await hashPrompt(options);
+    let fixture = fixtures.get(hash);
+
+    if (record) {
+      const { text, usage } = await generateWithModel(record, options);
+      fixture = {
+        hash,
+        modelId: record.modelId,
+        recordedAt: new Date().toISOString(),
+        prompt: normalizePrompt(options),
+        text,
+        usage,
+      };
+      await saveFixture(fixture);
+    }
+
+    if (!fixture) {
+      throw new Error(
+        `No recorded LLM fixture for prompt ${hash}. Run with VITE_LLM_MOCK=record to capture one.`
+      );
+    }
+    return fixture;
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: record ? `record:${record.modelId}` : 'replay',
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: true,
+
+    async doGenerate(options) {
+      const fixture = await loadFixture(options);
+
+      return {
+        text: fixture.text,
+        finishReason: 'stop',
+        usage: fixture.usage,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    // the same fixtures as doGenerate, replayed in pieces
+    async doStream(options) {
+      const fixture = await loadFixture(options);
+      const { text } = fixture;
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+              controller.enqueue({
+                type: 'text-delta',
+                textDelta: text.slice(i, i + STREAM_CHUNK_SIZE),
+              });
+            }
+            controller.enqueue({
+              type: 'finish',
+              finishReason: 'stop',
+              usage: fixture.usage,
+            });
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
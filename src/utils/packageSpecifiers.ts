@@ -0,0 +1,49 @@
+// bare module specifiers, shared by the dependency report and import checks
+
+const NODE_BUILTINS = new Set([
+  'assert',
+  'buffer',
+  'child_process',
+  'crypto',
+  'dns',
+  'events',
+  'fs',
+  'http',
+  'https',
+  'net',
+  'os',
+  'path',
+  'perf_hooks',
+  'process',
+  'querystring',
+  'readline',
+  'stream',
+  'timers',
+  'tls',
+  'url',
+  'util',
+  'worker_threads',
+  'zlib',
+]);
+
+// `@scope/name/sub` → `@scope/name`, `name/sub` → `name`; null for aliases and builtins
+export function packageNameFromSpecifier(specifier: string): string | null {
+  if (
+    specifier.startsWith('.') ||
+    specifier.startsWith('/') ||
+    /^[~#$]/.test(specifier) ||
+    // node:fs, astro:content, virtual:pwa-register
+    /^[a-z]+:/.test(specifier)
+  ) {
+    return null;
+  }
+
+  const parts = specifier.split('/');
+  if (specifier.startsWith('@')) {
+    // `@/components/...` is a path alias, not a scope
+    if (parts[0] === '@' || parts.length < 2) return null;
+    return `${parts[0]}/${parts[1]}`;
+  }
+  if (NODE_BUILTINS.has(parts[0]!)) return null;
+  return parts[0]!;
+}
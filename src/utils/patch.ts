@@ -0,0 +1,195 @@
+import { buildHunks, countChanges, diffLines, type DiffLine } from './diff';
+import { groupCommits } from './commits';
+import {
+  resultContent,
+  sourcePath,
+  type IntegrationPlan,
+  type PlanFile,
+} from './llm';
+
+export interface PatchAuthor {
+  name: string;
+  email: string;
+}
+
+const DEFAULT_AUTHOR: PatchAuthor = {
+  name: 'ProtoJam',
+  email: 'protojam@users.noreply.github.com',
+};
+
+// git writes this fixed date after the placeholder hash of every patch
+const MBOX_SEPARATOR =
+  'From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001';
+
+// marks a last line without a newline, so it differs from the same line with
+// one and ends up in a hunk
+const NO_NEWLINE = '\0';
+
+// widest +/- bar in the diffstat
+const STAT_WIDTH = 40;
+
+function markOpenEnd(text: string) {
+  return !text || text.endsWith('\n') ? text : `${text}${NO_NEWLINE}\n`;
+}
+
+function formatLine(line: DiffLine) {
+  const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+  return line.content.endsWith(NO_NEWLINE)
+    ? `${prefix}${line.content.slice(0, -1)}\n\\ No newline at end of file`
+    : `${prefix}${line.content}`;
+}
+
+function hunkRange(start: number, lines: number) {
+  return lines === 1 ? `${start}` : `${start},${lines}`;
+}
+
+function formatHunks(lines: DiffLine[]) {
+  return buildHunks(lines)
+    .map((hunk) =>
+      [
+        `@@ -${hunkRange(hunk.oldStart, hunk.oldLines)} +${hunkRange(
+          hunk.newStart,
+          hunk.newLines
+        )} @@`,
+        ...hunk.lines.map(formatLine),
+      ].join('\n')
+    )
+    .join('\n');
+}
+
+interface FileDiff {
+  path: string;
+  additions: number;
+  deletions: number;
+  text: string;
+}
+
+function diffFile(
+  file: PlanFile,
+  originalContents: Record<string, string | null>
+): FileDiff | null {
+  const from = sourcePath(file);
+  const original = originalContents[from];
+  const exists = original !== null && original !== undefined;
+  if (original === undefined && file.operation !== 'create') {
+    throw new Error(
+      `The current content of ${from} isn't loaded, reopen the target repository to export a patch.`
+    );
+  }
+
+  const oldText = original ?? '';
+  const newText =
+    file.operation === 'delete'
+      ? ''
+      : file.operation === 'rename' && !file.content
+        ? oldText
+        : resultContent(file);
+  const mode = file.mode || '100644';
+
+  const header = [`diff --git a/${from} b/${file.path}`];
+  if (file.operation === 'delete') {
+    header.push('deleted file mode 100644');
+  } else if (!exists) {
+    header.push(`new file mode ${mode}`);
+  } else if (from !== file.path) {
+    header.push(`rename from ${from}`, `rename to ${file.path}`);
+  }
+
+  const lines = diffLines(markOpenEnd(oldText), markOpenEnd(newText));
+  const hunks = formatHunks(lines);
+  // a pure rename has no content to show
+  if (!hunks && from === file.path) return null;
+
+  const { additions, deletions } = countChanges(lines);
+  return {
+    path: from === file.path ? file.path : `${from} => ${file.path}`,
+    additions,
+    deletions,
+    text: hunks
+      ? [
+          ...header,
+          `--- ${exists ? `a/${from}` : '/dev/null'}`,
+          `+++ ${file.operation === 'delete' ? '/dev/null' : `b/${file.path}`}`,
+          hunks,
+        ].join('\n')
+      : header.join('\n'),
+  };
+}
+
+function formatDiffstat(diffs: FileDiff[]) {
+  const pathWidth = Math.max(...diffs.map((diff) => diff.path.length));
+  const largest = Math.max(
+    ...diffs.map((diff) => diff.additions + diff.deletions)
+  );
+  const scale = largest > STAT_WIDTH ? STAT_WIDTH / largest : 1;
+  const countWidth = String(largest).length;
+
+  const lines = diffs.map((diff) => {
+    const total = diff.additions + diff.deletions;
+    const plus = Math.round(diff.additions * scale);
+    const minus = Math.round(diff.deletions * scale);
+    return ` ${diff.path.padEnd(pathWidth)} | ${String(total).padStart(
+      countWidth
+    )} ${'+'.repeat(plus)}${'-'.repeat(minus)}`.trimEnd();
+  });
+
+  const additions = diffs.reduce((sum, diff) => sum + diff.additions, 0);
+  const deletions = diffs.reduce((sum, diff) => sum + diff.deletions, 0);
+  const summary = [
+    `${diffs.length} ${diffs.length === 1 ? 'file' : 'files'} changed`,
+    additions && `${additions} insertion${additions === 1 ? '' : 's'}(+)`,
+    deletions && `${deletions} deletion${deletions === 1 ? '' : 's'}(-)`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return [...lines, ` ${summary}`].join('\n');
+}
+
+// one mail per planned commit, as `git format-patch --stdout` writes them, so
+// the plan applies with `git am`. Binary files can't be written as text
+// patches and are left out
+export function formatPatch(
+  plan: IntegrationPlan,
+  originalContents: Record<string, string | null>,
+  {
+    author = DEFAULT_AUTHOR,
+    date = new Date(),
+  }: { author?: PatchAuthor; date?: Date } = {}
+): string {
+  const commits = groupCommits(plan)
+    .map((group) => ({
+      message: group.message,
+      diffs: group.files
+        .filter((file) => file.encoding !== 'base64')
+        .map((file) => diffFile(file, originalContents))
+        .filter((diff): diff is FileDiff => diff !== null),
+    }))
+    .filter((commit) => commit.diffs.length);
+
+  return commits
+    .map((commit, index) => {
+      const [subject, ...body] = commit.message.trim().split('\n');
+      const number =
+        commits.length > 1 ? ` ${index + 1}/${commits.length}` : '';
+      return [
+        MBOX_SEPARATOR,
+        `From: ${author.name} <${author.email}>`,
+        `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+        `Subject: [PATCH${number}] ${subject}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        ...(body.join('\n').trim() ? [body.join('\n').trim(), ''] : []),
+        '---',
+        formatDiffstat(commit.diffs),
+        '',
+        ...commit.diffs.map((diff) => diff.text),
+        '-- ',
+        'ProtoJam',
+        '',
+      ].join('\n');
+    })
+    .join('\n');
+}
@@ -0,0 +1,26 @@
+// repository paths, relative to the root and without leading or trailing slashes
+
+export function directoryOf(path: string) {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+// the directories containing a path, nearest first and ending with the root
+export function ancestors(path: string) {
+  const directories = [];
+  let directory = directoryOf(path);
+  for (;;) {
+    directories.push(directory);
+    if (!directory) return directories;
+    directory = directoryOf(directory);
+  }
+}
+
+// resolves `.` and `..`, going above the root stays at the root
+export function joinPath(directory: string, path: string) {
+  const parts = directory ? directory.split('/') : [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
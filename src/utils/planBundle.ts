@@ -0,0 +1,190 @@
+import JSZip from 'jszip';
+import { Buffer } from 'buffer';
+import { z } from 'zod';
+import {
+  FILE_OPERATIONS,
+  PROMPT_VERSION,
+  resultContent,
+  sourcePath,
+  type IntegrationPlan,
+  type PrototypeFile,
+} from './llm';
+import { providerRegistry, type ModelSettings } from './providers';
+
+const PLAN_BUNDLE_FORMAT = 'protojam-plan';
+// bump when the bundle's shape changes, older versions must still import
+export const PLAN_BUNDLE_VERSION = 1;
+
+// a plan that can be shared without a pull request, with everything needed
+// to review it or open the pull request later
+export interface PlanBundle {
+  format: typeof PLAN_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  name: string;
+  // where the plan was generated, the commit is the snapshot it was made from
+  target: {
+    repository: string;
+    branch: string;
+    commitSha: string;
+  };
+  // without the API key, it stays on the machine it was entered on
+  modelSettings: ModelSettings;
+  promptVersion: string;
+  plan: IntegrationPlan;
+  prototypeFiles: PrototypeFile[];
+}
+
+const fileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  encoding: z.literal('base64').optional(),
+});
+
+const PlanBundleSchema = z.object({
+  format: z.literal(PLAN_BUNDLE_FORMAT),
+  version: z.number(),
+  exportedAt: z.string(),
+  name: z.string(),
+  target: z.object({
+    repository: z.string(),
+    branch: z.string(),
+    commitSha: z.string(),
+  }),
+  modelSettings: z.object({
+    provider: z
+      .string()
+      .refine((provider) => provider in providerRegistry)
+      .transform((provider) => provider as ModelSettings['provider']),
+    model: z.string(),
+    baseURL: z.string().optional(),
+    reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+    repairRounds: z.number().optional(),
+  }),
+  promptVersion: z.string(),
+  plan: z.object({
+    targetDirectory: z.string(),
+    integrationSteps: z.array(z.string()),
+    testingGuidelines: z.array(z.string()),
+    pullRequest: z.object({
+      title: z.string(),
+      description: z.string(),
+      files: z.array(
+        fileSchema.extend({
+          operation: z.enum(FILE_OPERATIONS).optional(),
+          previousPath: z.string().optional(),
+          mode: z.enum(['100644', '100755']).optional(),
+        })
+      ),
+      route: z.string(),
+      routeFile: z.string(),
+      commits: z
+        .array(z.object({ message: z.string(), files: z.array(z.string()) }))
+        .optional(),
+    }),
+  }),
+  prototypeFiles: z.array(fileSchema),
+});
+
+export function createPlanBundle({
+  name,
+  target,
+  modelSettings,
+  plan,
+  prototypeFiles,
+}: {
+  name: string;
+  target: PlanBundle['target'];
+  modelSettings: ModelSettings;
+  plan: IntegrationPlan;
+  prototypeFiles: PrototypeFile[];
+}): PlanBundle {
+  return {
+    format: PLAN_BUNDLE_FORMAT,
+    version: PLAN_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    target,
+    modelSettings: { ...modelSettings, apiKey: undefined },
+    promptVersion: PROMPT_VERSION,
+    plan,
+    prototypeFiles,
+  };
+}
+
+export function parsePlanBundle(text: string): PlanBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a ProtoJam plan bundle.");
+  }
+
+  const header = z
+    .object({ format: z.literal(PLAN_BUNDLE_FORMAT), version: z.number() })
+    .safeParse(data);
+  if (!header.success) {
+    throw new Error("This file isn't a ProtoJam plan bundle.");
+  }
+  if (header.data.version > PLAN_BUNDLE_VERSION) {
+    throw new Error(
+      `This plan bundle was made by a newer version of ProtoJam (bundle version ${header.data.version}), update ProtoJam to import it.`
+    );
+  }
+
+  const bundle = PlanBundleSchema.safeParse(data);
+  if (!bundle.success) {
+    console.error('Invalid plan bundle:', bundle.error);
+    throw new Error('The plan bundle is incomplete or damaged.');
+  }
+  return bundle.data;
+}
+
+// the files as they'd be after the pull request, deleted files are left out
+export async function zipPlanFiles(
+  plan: IntegrationPlan,
+  originalContents: Record<string, string | null>
+): Promise<Blob> {
+  const zip = new JSZip();
+  plan.pullRequest.files
+    .filter((file) => file.path && file.operation !== 'delete')
+    .forEach((file) => {
+      // renames without content keep what the file had
+      const content =
+        file.operation === 'rename' && !file.content
+          ? originalContents[sourcePath(file)]
+          : resultContent(file);
+      if (typeof content !== 'string') {
+        throw new Error(
+          `The current content of ${sourcePath(file)} isn't loaded, reopen the target repository to export the files.`
+        );
+      }
+      zip.file(
+        file.path,
+        file.encoding === 'base64'
+          ? new Uint8Array(Buffer.from(content, 'base64'))
+          : content,
+        { unixPermissions: file.mode === '100755' ? 0o755 : 0o644 }
+      );
+    });
+  return zip.generateAsync({ type: 'blob', platform: 'UNIX' });
+}
+
+// a file name from the prototype name, safe on every platform
+export function exportFileName(name: string, extension: string) {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${base || 'integration'}${extension}`;
+}
+
+export function downloadFile(fileName: string, data: Blob) {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // the click starts the download synchronously, the url isn't needed after
+  setTimeout(() => URL.revokeObjectURL(url));
+}
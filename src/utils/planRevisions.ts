@@ -0,0 +1,87 @@
+import { countChanges, diffLines } from './diff';
+import type { IntegrationPlan } from './llm';
+import type { ModelSettings } from './providers';
+import type { RepairRound } from './repair';
+
+export interface PlanRevision {
+  plan: IntegrationPlan;
+  // feedback that produced this revision, empty for the generated plan
+  feedback?: string;
+  // the automatic repair round that produced this revision
+  repair?: RepairRound;
+  // index of the revision the feedback was applied to
+  parent?: number;
+  // the model that produced it, unknown for sessions saved before this was kept
+  model?: Pick<ModelSettings, 'provider' | 'model'>;
+  createdAt: string;
+}
+
+export interface PlanComparison {
+  addedFiles: string[];
+  removedFiles: string[];
+  modifiedFiles: Array<{ path: string; additions: number; deletions: number }>;
+  routeChanged: boolean;
+  targetDirectoryChanged: boolean;
+  stepsChanged: boolean;
+  titleChanged: boolean;
+}
+
+export function comparePlans(
+  previous: IntegrationPlan,
+  next: IntegrationPlan
+): PlanComparison {
+  const previousFiles = new Map(
+    previous.pullRequest.files.map((file) => [file.path, file.content])
+  );
+  const nextFiles = new Map(
+    next.pullRequest.files.map((file) => [file.path, file.content])
+  );
+
+  const modifiedFiles: PlanComparison['modifiedFiles'] = [];
+  nextFiles.forEach((content, path) => {
+    const previousContent = previousFiles.get(path);
+    if (previousContent !== undefined && previousContent !== content) {
+      modifiedFiles.push({
+        path,
+        ...countChanges(diffLines(previousContent, content)),
+      });
+    }
+  });
+
+  return {
+    addedFiles: [...nextFiles.keys()].filter((p) => !previousFiles.has(p)),
+    removedFiles: [...previousFiles.keys()].filter((p) => !nextFiles.has(p)),
+    modifiedFiles,
+    routeChanged: previous.pullRequest.route !== next.pullRequest.route,
+    targetDirectoryChanged: previous.targetDirectory !== next.targetDirectory,
+    stepsChanged:
+      JSON.stringify(previous.integrationSteps) !==
+      JSON.stringify(next.integrationSteps),
+    titleChanged: previous.pullRequest.title !== next.pullRequest.title,
+  };
+}
+
+export function hasChanges(comparison: PlanComparison) {
+  return (
+    comparison.addedFiles.length > 0 ||
+    comparison.removedFiles.length > 0 ||
+    comparison.modifiedFiles.length > 0 ||
+    comparison.routeChanged ||
+    comparison.targetDirectoryChanged ||
+    comparison.stepsChanged ||
+    comparison.titleChanged
+  );
+}
+
+// feedback applied on the way to a revision, oldest first, skipping branches
+// abandoned by rolling back
+export function feedbackHistory(revisions: PlanRevision[], index: number) {
+  const history: string[] = [];
+  let revision: PlanRevision | undefined = revisions[index];
+  while (revision) {
+    if (revision.feedback) history.unshift(revision.feedback);
+    revision =
+      revision.parent !== undefined ? revisions[revision.parent] : undefined;
+  }
+  return history;
+}
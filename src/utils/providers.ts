@@ -1,36 +1,257 @@
 // adopted from deep-research
 import { createOpenAI, type OpenAIProviderSettings } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAzure } from '@ai-sdk/azure';
+import type { LanguageModelV1 } from 'ai';
 import { getEncoding } from 'js-tiktoken';
 
+import { createMockModel } from './mockProvider';
 import { RecursiveCharacterTextSplitter } from './text-splitter';
 
 interface CustomOpenAIProviderSettings extends OpenAIProviderSettings {
   baseURL?: string;
 }
 
-// Providers
-const openai = createOpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  baseURL: import.meta.env.VITE_OPENAI_ENDPOINT || 'https://api.openai.com/v1',
-} as CustomOpenAIProviderSettings);
+export type ProviderId =
+  | 'openai'
+  | 'anthropic'
+  | 'azure'
+  | 'openai-compatible'
+  | 'mock';
 
-const customModel = import.meta.env.VITE_OPENAI_MODEL || 'o3-mini';
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export interface ModelSettings {
+  provider: ProviderId;
+  model: string;
+  // falls back to the provider's VITE_* key when empty
+  apiKey?: string;
+  // endpoint for OpenAI-compatible servers, resource name or URL for Azure
+  baseURL?: string;
+  reasoningEffort?: ReasoningEffort;
+  // automatic fix-up passes for type errors and unresolved imports, 0 turns them off
+  repairRounds?: number;
+}
+
+export interface ModelCapabilities {
+  reasoningEffort: boolean;
+  structuredOutputs: boolean;
+}
+
+interface ProviderDefinition {
+  label: string;
+  defaultModel: string;
+  models: string[];
+  baseURLLabel?: string;
+  baseURLPlaceholder?: string;
+  apiKeyRequired: boolean;
+}
+
+export const providerRegistry: Record<ProviderId, ProviderDefinition> = {
+  openai: {
+    label: 'OpenAI',
+    defaultModel: 'o3-mini',
+    models: ['o3-mini', 'o1', 'gpt-4o', 'gpt-4o-mini'],
+    baseURLLabel: 'Base URL (optional)',
+    baseURLPlaceholder: 'https://api.openai.com/v1',
+    apiKeyRequired: true,
+  },
+  anthropic: {
+    label: 'Anthropic',
+    defaultModel: 'claude-3-5-sonnet-latest',
+    models: [
+      'claude-3-7-sonnet-latest',
+      'claude-3-5-sonnet-latest',
+      'claude-3-5-haiku-latest',
+    ],
+    apiKeyRequired: true,
+  },
+  azure: {
+    label: 'Azure OpenAI',
+    defaultModel: 'gpt-4o',
+    models: ['gpt-4o', 'o3-mini'],
+    baseURLLabel: 'Resource name or base URL',
+    baseURLPlaceholder: 'my-resource',
+    apiKeyRequired: true,
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible (Ollama, llama.cpp)',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5-coder', 'deepseek-r1'],
+    baseURLLabel: 'Endpoint URL',
+    baseURLPlaceholder: 'http://localhost:11434/v1',
+    apiKeyRequired: false,
+  },
+  mock: {
+    label: 'Offline fixtures (mock)',
+    defaultModel: 'replay',
+    models: ['replay'],
+    apiKeyRequired: false,
+  },
+};
+
+const envApiKeys: Record<ProviderId, string | undefined> = {
+  openai: import.meta.env.VITE_OPENAI_API_KEY,
+  anthropic: import.meta.env.VITE_ANTHROPIC_API_KEY,
+  azure: import.meta.env.VITE_AZURE_API_KEY,
+  'openai-compatible': import.meta.env.VITE_OPENAI_COMPATIBLE_API_KEY,
+  mock: undefined,
+};
+
+// `replay` forces the offline mock, `record` captures real responses as fixtures
+const mockMode = import.meta.env.VITE_LLM_MOCK as
+  | 'replay'
+  | 'record'
+  | undefined;
+
+function isProviderId(id: string): id is ProviderId {
+  return Object.keys(providerRegistry).includes(id);
+}
+
+// an unknown provider would have no defaults to fall back on
+const envProvider: string | undefined = import.meta.env.VITE_LLM_PROVIDER;
+if (envProvider && !isProviderId(envProvider)) {
+  console.warn(
+    `Unknown VITE_LLM_PROVIDER "${envProvider}", using openai. Expected one of ${Object.keys(
+      providerRegistry
+    ).join(', ')}.`
+  );
+}
+const defaultProvider: ProviderId =
+  envProvider && isProviderId(envProvider) ? envProvider : 'openai';
+
+export const defaultModelSettings: ModelSettings = {
+  provider: defaultProvider,
+  model:
+    import.meta.env.VITE_LLM_MODEL ||
+    (defaultProvider === 'openai' && import.meta.env.VITE_OPENAI_MODEL) ||
+    providerRegistry[defaultProvider].defaultModel,
+  baseURL: import.meta.env.VITE_LLM_BASE_URL || undefined,
+  reasoningEffort: 'medium',
+  repairRounds: Number(import.meta.env.VITE_REPAIR_ROUNDS ?? 2),
+};
+
+// o-series reasoning models, e.g. o1, o3-mini, o4-mini
+const REASONING_MODEL = /^o\d/;
+// models that support OpenAI's strict JSON schema response format
+const STRUCTURED_OUTPUT_MODEL =
+  /^(gpt-4o|gpt-4\.1|gpt-4\.5|chatgpt-4o|o1(-20\d\d|$)|o[3-9])/;
+
+export function getModelCapabilities(
+  provider: ProviderId,
+  model: string
+): ModelCapabilities {
+  switch (provider) {
+    case 'openai':
+    case 'azure':
+      return {
+        reasoningEffort: REASONING_MODEL.test(model),
+        structuredOutputs: STRUCTURED_OUTPUT_MODEL.test(model),
+      };
+    case 'mock':
+      return { reasoningEffort: false, structuredOutputs: true };
+    case 'anthropic':
+    case 'openai-compatible':
+    default:
+      // these fall back to tool calls or JSON mode in generateObject
+      return { reasoningEffort: false, structuredOutputs: false };
+  }
+}
 
 // Models
 
-export const o3MiniModel = openai(customModel, {
-  reasoningEffort: customModel.startsWith('o') ? 'medium' : undefined,
-  structuredOutputs: true,
-});
+export function createModel(settings: ModelSettings): LanguageModelV1 {
+  if (mockMode === 'replay' || settings.provider === 'mock') {
+    return createMockModel();
+  }
+  if (mockMode === 'record') {
+    return createMockModel({ record: createProviderModel(settings) });
+  }
+  return createProviderModel(settings);
+}
+
+function createProviderModel(settings: ModelSettings): LanguageModelV1 {
+  const { provider, model } = settings;
+  const apiKey = settings.apiKey || envApiKeys[provider];
+  const capabilities = getModelCapabilities(provider, model);
+  const chatSettings = {
+    reasoningEffort: capabilities.reasoningEffort
+      ? settings.reasoningEffort || 'medium'
+      : undefined,
+    structuredOutputs: capabilities.structuredOutputs,
+  };
+
+  switch (provider) {
+    case 'anthropic':
+      return createAnthropic({
+        apiKey,
+        // required for calling the API straight from the browser
+        headers: { 'anthropic-dangerous-direct-browser-access': 'true' },
+      })(model);
+    case 'azure': {
+      const target = settings.baseURL;
+      return createAzure({
+        apiKey,
+        ...(target?.startsWith('http')
+          ? { baseURL: target }
+          : { resourceName: target }),
+      })(model, chatSettings);
+    }
+    case 'openai-compatible':
+      return createOpenAI({
+        name: 'openai-compatible',
+        apiKey: apiKey || 'not-needed',
+        baseURL:
+          settings.baseURL ||
+          providerRegistry['openai-compatible'].baseURLPlaceholder,
+        compatibility: 'compatible',
+      } as CustomOpenAIProviderSettings)(model, chatSettings);
+    case 'openai':
+    default:
+      return createOpenAI({
+        apiKey,
+        baseURL:
+          settings.baseURL ||
+          import.meta.env.VITE_OPENAI_ENDPOINT ||
+          providerRegistry.openai.baseURLPlaceholder,
+      } as CustomOpenAIProviderSettings)(model, chatSettings);
+  }
+}
+
+const SETTINGS_STORAGE_KEY = 'protojam:model-settings';
+
+// API keys are never written to storage
+export function loadModelSettings(): ModelSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored
+      ? { ...defaultModelSettings, ...JSON.parse(stored), apiKey: undefined }
+      : defaultModelSettings;
+  } catch {
+    return defaultModelSettings;
+  }
+}
+
+export function saveModelSettings(settings: ModelSettings) {
+  localStorage.setItem(
+    SETTINGS_STORAGE_KEY,
+    JSON.stringify({ ...settings, apiKey: undefined })
+  );
+}
 
 const MinChunkSize = 140;
 const encoder = getEncoding('o200k_base');
 
+export const CONTEXT_SIZE =
+  Number(import.meta.env.VITE_CONTEXT_SIZE) || 128_000;
+
+// count tokens with the same encoding used for trimming
+export function countTokens(text: string) {
+  return text ? encoder.encode(text).length : 0;
+}
+
 // trim prompt to maximum context size
-export function trimPrompt(
-  prompt: string,
-  contextSize = Number(process.env.CONTEXT_SIZE) || 128_000
-) {
+export function trimPrompt(prompt: string, contextSize = CONTEXT_SIZE) {
   if (!prompt) {
     return '';
   }
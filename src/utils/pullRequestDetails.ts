@@ -0,0 +1,142 @@
+import type { FileOperation, IntegrationPlan } from './llm';
+
+export interface PullRequestFileSummary {
+  path: string;
+  operation: FileOperation;
+  previousPath?: string;
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+}
+
+// what the description needs beyond the plan itself
+export interface PullRequestMetadata {
+  files: PullRequestFileSummary[];
+  // e.g. "Next.js 14.2.3, app router"
+  framework?: string;
+  // packages added to the workspace package.json, with their versions
+  newDependencies: Record<string, string>;
+  // new dependencies the prototype didn't version, to be pinned in review
+  unversionedDependencies?: string[];
+  installCommand?: string;
+  // the model that produced the plan, when it's known
+  model?: { provider: string; model: string };
+  promptVersion: string;
+}
+
+// applied when the pull request is opened, empty lists leave GitHub's defaults
+export interface PullRequestOptions {
+  reviewers: string[];
+  labels: string[];
+  assignees: string[];
+  draft: boolean;
+}
+
+export const DEFAULT_PULL_REQUEST_OPTIONS: PullRequestOptions = {
+  reviewers: [],
+  labels: [],
+  assignees: [],
+  draft: false,
+};
+
+const OPTIONS_STORAGE_KEY = 'protojam:pull-request-options';
+
+export function loadPullRequestOptions(): PullRequestOptions {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_PULL_REQUEST_OPTIONS, ...JSON.parse(stored) }
+      : DEFAULT_PULL_REQUEST_OPTIONS;
+  } catch {
+    return DEFAULT_PULL_REQUEST_OPTIONS;
+  }
+}
+
+export function savePullRequestOptions(options: PullRequestOptions) {
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+}
+
+const operationLabels: Record<FileOperation, string> = {
+  create: 'Added',
+  modify: 'Modified',
+  delete: 'Deleted',
+  rename: 'Renamed',
+};
+
+// keep paths from breaking out of their table cell
+function tableCode(value: string) {
+  return `\`${value.replace(/\|/g, '\\|')}\``;
+}
+
+function fileRow(file: PullRequestFileSummary) {
+  const path =
+    file.operation === 'rename' && file.previousPath
+      ? `${tableCode(file.previousPath)} → ${tableCode(file.path)}`
+      : tableCode(file.path);
+  const lines = file.binary
+    ? 'binary'
+    : `+${file.additions} -${file.deletions}`;
+  return `| ${path} | ${operationLabels[file.operation]} | ${lines} |`;
+}
+
+export function formatPRDescription(
+  plan: IntegrationPlan,
+  metadata: PullRequestMetadata
+): string {
+  const { files } = metadata;
+  const additions = files.reduce((total, file) => total + file.additions, 0);
+  const deletions = files.reduce((total, file) => total + file.deletions, 0);
+  const dependencies = Object.entries(metadata.newDependencies);
+  const guidelines = plan.testingGuidelines || [];
+
+  const sections = [
+    '## Summary',
+    plan.pullRequest.description,
+    [
+      plan.pullRequest.route && `- Route: \`${plan.pullRequest.route}\``,
+      metadata.framework && `- Framework: ${metadata.framework}`,
+      `- Files: ${files.length} (+${additions} -${deletions})`,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    '## Files',
+    [
+      '| File | Change | Lines |',
+      '| --- | --- | --- |',
+      ...files.map(fileRow),
+    ].join('\n'),
+    dependencies.length > 0 && '## New Dependencies',
+    dependencies.length > 0 &&
+      [
+        ...dependencies.map(([name, version]) =>
+          metadata.unversionedDependencies?.includes(name)
+            ? `- \`${name}@${version}\` (version unknown, review before merging)`
+            : `- \`${name}@${version}\``
+        ),
+        metadata.installCommand &&
+          `\nRun \`${metadata.installCommand}\` to update the lockfile.`,
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    plan.integrationSteps.length > 0 && '## Integration Steps',
+    plan.integrationSteps
+      .map((step, index) => `${index + 1}. ${step}`)
+      .join('\n'),
+    guidelines.length > 0 && '## Testing',
+    guidelines.map((guideline) => `- [ ] ${guideline}`).join('\n'),
+    [
+      '<details>',
+      '<summary>Generation details</summary>',
+      '',
+      '- Generated by ProtoJam',
+      ...(metadata.model
+        ? [`- Model: ${metadata.model.provider} / ${metadata.model.model}`]
+        : []),
+      `- Prompt version: ${metadata.promptVersion}`,
+      '',
+      '</details>',
+    ].join('\n'),
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
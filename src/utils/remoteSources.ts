@@ -0,0 +1,324 @@
+import type { Octokit } from '@octokit/rest';
+import { Buffer } from 'buffer';
+import {
+  cachedRead,
+  unpackZip,
+  type PrototypeSource,
+  type SourceFile,
+} from './zipHandler';
+
+export type RemoteSourceKind = 'github' | 'gist' | 'url';
+
+export type RemoteSource =
+  | {
+      kind: 'github';
+      owner: string;
+      repo: string;
+      // the repository's default branch when empty
+      ref?: string;
+      path?: string;
+      // `<ref>/<path>` from a /tree/ or /blob/ URL, split once the repository's
+      // refs are known since branch names can contain slashes
+      treePath?: string;
+    }
+  | { kind: 'gist'; id: string }
+  | { kind: 'url'; url: string };
+
+const GITHUB_URL =
+  /^(?:https?:\/\/)?(?:www\.)?github\.com\/([^/\s]+)\/([^/\s#?]+?)(?:\.git)?(?:\/(?:tree|blob)\/([^\s#?]+?))?\/?(?:[#?].*)?$/;
+const GITHUB_SHORTHAND = /^([\w.-]+)\/([\w.-]+)$/;
+const GIST_ID = /^[0-9a-f]{20,}$/i;
+const GIST_URL =
+  /^(?:https?:\/\/)?gist\.github\.com\/(?:[^/\s]+\/)?([0-9a-f]{20,})/i;
+
+function trimSlashes(value: string) {
+  return value.replace(/^\/+|\/+$/g, '');
+}
+
+// `owner/repo` or a github.com URL, a /tree/<branch>/<path> URL fills in the
+// branch and folder unless they were given separately
+export function parseGitHubSource(
+  input: string,
+  ref = '',
+  path = ''
+): RemoteSource {
+  const value = input.trim();
+  const match = value.match(GITHUB_URL) || value.match(GITHUB_SHORTHAND);
+  if (!match) {
+    throw new Error(
+      `"${value}" is not a GitHub repository. Use owner/repo or a github.com URL.`
+    );
+  }
+  const [, owner, repo, urlTreePath] = match;
+  const givenRef = ref.trim();
+  const givenPath = trimSlashes(path.trim());
+  const treePath = trimSlashes(urlTreePath || '');
+  const source = {
+    kind: 'github' as const,
+    owner: owner!,
+    repo: repo!,
+    ref: givenRef || undefined,
+    path: givenPath || undefined,
+  };
+  if (!treePath || (givenRef && givenPath)) return source;
+  if (givenRef) {
+    // with the branch given, the rest of the URL is the folder
+    const rest = treePath.startsWith(`${givenRef}/`)
+      ? treePath.slice(givenRef.length + 1)
+      : '';
+    return { ...source, path: rest || undefined };
+  }
+  return { ...source, treePath };
+}
+
+export function parseGistSource(input: string): RemoteSource {
+  const value = input.trim();
+  const id = GIST_ID.test(value) ? value : value.match(GIST_URL)?.[1];
+  if (!id) {
+    throw new Error(`"${value}" is not a gist ID or gist URL.`);
+  }
+  return { kind: 'gist', id };
+}
+
+export function parseUrlSource(input: string): RemoteSource {
+  const value = input.trim();
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error();
+    }
+  } catch {
+    throw new Error(`"${value}" is not a valid URL.`);
+  }
+  return { kind: 'url', url: value };
+}
+
+export function describeRemoteSource(source: RemoteSource) {
+  if (source.kind === 'github') {
+    return [
+      `${source.owner}/${source.repo}`,
+      source.ref && `@${source.ref}`,
+      !source.ref && source.treePath && `@${source.treePath}`,
+      source.path && `/${source.path}`,
+    ]
+      .filter(Boolean)
+      .join('');
+  }
+  if (source.kind === 'gist') return `gist ${source.id}`;
+  return source.url;
+}
+
+function remoteError(error: unknown, notFound: string) {
+  const status = (error as { status?: number })?.status;
+  if (status === 404) return new Error(notFound);
+  if (status === 403) {
+    return new Error(
+      'GitHub refused the request. Check your token can read the source, or wait for the rate limit to reset.'
+    );
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+type GitHubSource = Extract<RemoteSource, { kind: 'github' }>;
+
+// the shortest leading part of the tree path that names a branch, tag or
+// commit. Git doesn't allow a branch `a` next to a branch `a/b`, so there's
+// never more than one
+async function resolveTreePath(
+  octokit: Octokit,
+  { owner, repo, path }: GitHubSource,
+  treePath: string
+): Promise<GitHubSource> {
+  const parts = treePath.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const ref = parts.slice(0, i).join('/');
+    const found =
+      /^[0-9a-f]{40}$/i.test(ref) ||
+      (await refExists(octokit, owner, repo, `heads/${ref}`)) ||
+      (await refExists(octokit, owner, repo, `tags/${ref}`));
+    if (found) {
+      return {
+        kind: 'github',
+        owner,
+        repo,
+        ref,
+        path: path || parts.slice(i).join('/') || undefined,
+      };
+    }
+  }
+  throw Object.assign(new Error(`No branch or tag in ${treePath}`), {
+    status: 404,
+  });
+}
+
+async function refExists(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+) {
+  try {
+    await octokit.git.getRef({ owner, repo, ref });
+    return true;
+  } catch (error) {
+    if ((error as { status?: number })?.status === 404) return false;
+    throw error;
+  }
+}
+
+async function loadGitHubSource(
+  octokit: Octokit,
+  requested: GitHubSource
+): Promise<PrototypeSource> {
+  const { owner, repo } = requested;
+  try {
+    const source =
+      requested.treePath && !requested.ref
+        ? await resolveTreePath(octokit, requested, requested.treePath)
+        : requested;
+    const ref =
+      source.ref ||
+      (await octokit.repos.get({ owner, repo })).data.default_branch;
+    const { data: tree } = await octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: ref,
+      recursive: 'true',
+    });
+
+    if (tree.truncated) {
+      console.warn(
+        `Tree for ${owner}/${repo}@${ref} was truncated by the GitHub API; some files will be missing.`
+      );
+    }
+
+    const prefix = source.path ? `${source.path}/` : '';
+    const files: SourceFile[] = tree.tree
+      .filter(
+        (item) =>
+          item.type === 'blob' &&
+          (item.path?.startsWith(prefix) || item.path === source.path) &&
+          item.sha &&
+          // a symlink's blob is only the path it points at
+          item.mode !== '120000'
+      )
+      .map((item) => {
+        const path = item.path!;
+        return {
+          // a /blob/ URL points at a single file
+          path:
+            path === source.path
+              ? path.split('/').pop()!
+              : path.slice(prefix.length),
+          size: item.size,
+          read: cachedRead(async () => {
+            const { data } = await octokit.git.getBlob({
+              owner,
+              repo,
+              file_sha: item.sha!,
+            });
+            return new Uint8Array(Buffer.from(data.content, 'base64'));
+          }),
+        };
+      });
+
+    if (files.length === 0) {
+      throw new Error(
+        `No files found in ${describeRemoteSource({ ...source, ref })}.`
+      );
+    }
+    const isFolder = tree.tree.some(
+      (item) => item.path === source.path && item.type === 'tree'
+    );
+    return { files, strippedRoots: isFolder ? [source.path!] : [] };
+  } catch (error) {
+    throw remoteError(
+      error,
+      `${describeRemoteSource(
+        requested
+      )} not found. Check the repository, branch and your token's access.`
+    );
+  }
+}
+
+async function loadGist(
+  octokit: Octokit,
+  id: string
+): Promise<PrototypeSource> {
+  try {
+    const { data: gist } = await octokit.gists.get({ gist_id: id });
+    const encoder = new TextEncoder();
+    const files = Object.values(gist.files || {}).flatMap((file) => {
+      if (!file?.filename) return [];
+      return [
+        {
+          path: file.filename,
+          size: file.size,
+          read: cachedRead(async () => {
+            // the API cuts off large files, the raw URL has all of it
+            if (file.truncated && file.raw_url) {
+              const response = await fetch(file.raw_url);
+              if (!response.ok) {
+                throw new Error(
+                  `Downloading ${file.filename} from gist ${id} failed with status ${response.status}.`
+                );
+              }
+              return new Uint8Array(await response.arrayBuffer());
+            }
+            return encoder.encode(file.content || '');
+          }),
+        },
+      ];
+    });
+    return { files, strippedRoots: [] };
+  } catch (error) {
+    throw remoteError(error, `Gist ${id} not found or not accessible.`);
+  }
+}
+
+// a zip export (StackBlitz, CodeSandbox, a release asset) or a single file,
+// the host has to allow cross-origin requests
+async function loadUrl(url: string): Promise<PrototypeSource> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(
+      `Couldn't download ${url}. The server may not allow cross-origin requests, download it and upload the file instead.`
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Downloading ${url} failed with status ${response.status}.`
+    );
+  }
+
+  const blob = await response.blob();
+  const { pathname } = new URL(url);
+  const name = decodeURIComponent(pathname.split('/').pop() || '') || 'index';
+  if (
+    name.endsWith('.zip') ||
+    blob.type === 'application/zip' ||
+    blob.type === 'application/x-zip-compressed'
+  ) {
+    return unpackZip(blob);
+  }
+  return {
+    files: [
+      {
+        path: name,
+        read: async () => new Uint8Array(await blob.arrayBuffer()),
+      },
+    ],
+    strippedRoots: [],
+  };
+}
+
+export async function loadRemoteSource(
+  octokit: Octokit,
+  source: RemoteSource
+): Promise<PrototypeSource> {
+  if (source.kind === 'github') return loadGitHubSource(octokit, source);
+  if (source.kind === 'gist') return loadGist(octokit, source.id);
+  return loadUrl(source.url);
+}
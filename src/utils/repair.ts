@@ -0,0 +1,98 @@
+import type { IntegrationPlan, RepairedFile } from './llm';
+import type { FileDiagnostic } from './typecheck';
+
+export interface RepairRound {
+  // 1-based
+  round: number;
+  // the errors sent to the model
+  diagnostics: FileDiagnostic[];
+  // what the model changed in each file and why
+  changes: Array<{ path: string; reason: string }>;
+  // errors left once the changed files were checked again
+  remaining: FileDiagnostic[];
+}
+
+interface RepairPlanParams {
+  plan: IntegrationPlan;
+  maxRounds: number;
+  validate: (plan: IntegrationPlan) => Promise<FileDiagnostic[]>;
+  repair: (
+    plan: IntegrationPlan,
+    diagnostics: FileDiagnostic[]
+  ) => Promise<RepairedFile[]>;
+  onProgress?: (message: string) => void;
+  // called with the plan as it is after each round
+  onRound?: (round: RepairRound, plan: IntegrationPlan) => void;
+}
+
+const errorsOf = (diagnostics: FileDiagnostic[]) =>
+  diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+
+// write the model's corrected contents over the plan's text files
+export function applyRepairs(
+  plan: IntegrationPlan,
+  repaired: RepairedFile[]
+): IntegrationPlan {
+  const contents = new Map(repaired.map((file) => [file.path, file.content]));
+  return {
+    ...plan,
+    pullRequest: {
+      ...plan.pullRequest,
+      files: plan.pullRequest.files.map((file) =>
+        contents.has(file.path) &&
+        file.encoding !== 'base64' &&
+        file.operation !== 'delete'
+          ? { ...file, content: contents.get(file.path)! }
+          : file
+      ),
+    },
+  };
+}
+
+// validate, send the errors back to the model and validate its fixes again,
+// until the files check cleanly, the model stops changing them or the rounds
+// run out
+export async function repairPlan({
+  plan,
+  maxRounds,
+  validate,
+  repair,
+  onProgress,
+  onRound,
+}: RepairPlanParams) {
+  onProgress?.('Checking the generated files...');
+  let current = plan;
+  let diagnostics = await validate(current);
+  const rounds: RepairRound[] = [];
+
+  for (let round = 1; round <= maxRounds; round += 1) {
+    const errors = errorsOf(diagnostics);
+    if (errors.length === 0) break;
+
+    onProgress?.(
+      `Repairing ${errors.length} ${
+        errors.length === 1 ? 'error' : 'errors'
+      } (round ${round}/${maxRounds})...`
+    );
+    const previous = new Map(
+      current.pullRequest.files.map((file) => [file.path, file.content])
+    );
+    const changed = (await repair(current, errors)).filter(
+      (file) => previous.get(file.path) !== file.content
+    );
+    if (changed.length === 0) break;
+
+    current = applyRepairs(current, changed);
+    diagnostics = await validate(current);
+    const record: RepairRound = {
+      round,
+      diagnostics: errors,
+      changes: changed.map(({ path, reason }) => ({ path, reason })),
+      remaining: errorsOf(diagnostics),
+    };
+    rounds.push(record);
+    onRound?.(record, current);
+  }
+
+  return { plan: current, rounds, diagnostics };
+}
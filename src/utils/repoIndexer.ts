@@ -0,0 +1,145 @@
+import type { Octokit } from '@octokit/rest';
+import { Buffer } from 'buffer';
+import { createIgnoreMatcher, parseIgnorePatterns } from './ignore';
+
+export interface RepositoryEntry {
+  path: string;
+  type: 'file' | 'directory';
+  content?: string;
+}
+
+export interface RepositoryIndex {
+  ref: string;
+  commitSha: string;
+  entries: RepositoryEntry[];
+  ignoredCount: number;
+  truncated: boolean;
+}
+
+interface IndexRepositoryParams {
+  owner: string;
+  repo: string;
+  ref: string;
+  ignorePatterns?: string[];
+}
+
+// always excluded, regardless of what the repository's .gitignore says
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.git/',
+  'node_modules/',
+  'dist/',
+  'build/',
+  'out/',
+  'coverage/',
+  '.next/',
+  '.nuxt/',
+  '.svelte-kit/',
+  '.astro/',
+  '.turbo/',
+  '.vercel/',
+  '.cache/',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  '.DS_Store',
+];
+
+// nested .gitignore files are honoured, but only up to this many are fetched
+const MAX_GITIGNORE_FILES = 20;
+
+async function fetchIgnorePatterns(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  gitignores: Array<{ path: string; sha: string }>
+) {
+  const results = await Promise.all(
+    gitignores.slice(0, MAX_GITIGNORE_FILES).map(async ({ path, sha }) => {
+      try {
+        const { data } = await octokit.git.getBlob({
+          owner,
+          repo,
+          file_sha: sha,
+        });
+        const baseDirectory = path.split('/').slice(0, -1).join('/');
+        return parseIgnorePatterns(
+          Buffer.from(data.content, 'base64').toString('utf-8'),
+          baseDirectory
+        );
+      } catch (error) {
+        console.warn(`Failed to read ${path}, ignoring it:`, error);
+        return [];
+      }
+    })
+  );
+  return results.flat();
+}
+
+export async function indexRepository(
+  octokit: Octokit,
+  { owner, repo, ref, ignorePatterns = [] }: IndexRepositoryParams
+): Promise<RepositoryIndex> {
+  const { data: branch } = await octokit.repos.getBranch({
+    owner,
+    repo,
+    branch: ref,
+  });
+
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: branch.commit.commit.tree.sha,
+    recursive: 'true',
+  });
+
+  if (tree.truncated) {
+    console.warn(
+      `Tree for ${owner}/${repo}@${ref} was truncated by the GitHub API; some files will be missing.`
+    );
+  }
+
+  const gitignores = tree.tree
+    .filter(
+      (item) =>
+        item.type === 'blob' &&
+        item.path &&
+        item.sha &&
+        (item.path === '.gitignore' || item.path.endsWith('/.gitignore'))
+    )
+    .map((item) => ({ path: item.path as string, sha: item.sha as string }))
+    // shallow files first so the root .gitignore is never dropped by the cap
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+  const rules = [
+    ...parseIgnorePatterns(DEFAULT_IGNORE_PATTERNS),
+    ...parseIgnorePatterns(ignorePatterns),
+    ...(await fetchIgnorePatterns(octokit, owner, repo, gitignores)),
+  ];
+  const isIgnored = createIgnoreMatcher(rules);
+
+  const entries: RepositoryEntry[] = [];
+  let ignoredCount = 0;
+
+  tree.tree.forEach((item) => {
+    if (!item.path || (item.type !== 'blob' && item.type !== 'tree')) {
+      return;
+    }
+    const type = item.type === 'tree' ? 'directory' : 'file';
+    if (isIgnored(item.path, type === 'directory')) {
+      ignoredCount += 1;
+      return;
+    }
+    entries.push({ path: item.path, type });
+  });
+
+  entries.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    ref,
+    commitSha: branch.commit.sha,
+    entries,
+    ignoredCount,
+    truncated: Boolean(tree.truncated),
+  };
+}
@@ -0,0 +1,178 @@
+import type { TargetManifests } from './dependencies';
+import type { FrameworkDetection } from './frameworks';
+import type { BranchOutcome } from './github';
+import type { DirectoryAnalysis, IntegrationPlan, PrototypeFile } from './llm';
+import type { PlanRevision } from './planRevisions';
+import type { UploadSummary } from './zipHandler';
+
+// what the model is asked about: the kept prototype files and a snapshot of
+// the target repository
+export interface LLMRequest {
+  prototypeFiles: PrototypeFile[];
+  targetRepo: {
+    structure: {
+      path: string;
+      type: 'file' | 'directory';
+      content?: string;
+    }[];
+    name: string;
+    // the branch the pull request targets, and its head when it was indexed
+    branch: string;
+    ref: string;
+    framework: FrameworkDetection;
+  };
+}
+
+export interface SessionPullRequest {
+  url: string;
+  number: number;
+  branch: string;
+  outcome: BranchOutcome;
+  createdAt: string;
+}
+
+// one integration, from upload to pull requests, as it's kept between reloads
+export interface IntegrationSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  repository: string;
+  baseBranch: string;
+  uploadSummary: UploadSummary | null;
+  request: LLMRequest | null;
+  targetManifests: TargetManifests | null;
+  // base branch contents of the touched files, so diffs work offline
+  originalContents: Record<string, string | null>;
+  analysis: DirectoryAnalysis | null;
+  revisions: PlanRevision[];
+  activeRevision: number;
+  // the plan as shown, including manual edits
+  plan: IntegrationPlan | null;
+  excludedFiles: number[];
+  pullRequests: SessionPullRequest[];
+}
+
+// the fields the history list shows, without the files
+export interface SessionSummary {
+  id: string;
+  name: string;
+  repository: string;
+  baseBranch: string;
+  createdAt: string;
+  updatedAt: string;
+  fileCount: number;
+  revisionCount: number;
+  pullRequests: SessionPullRequest[];
+}
+
+const DATABASE_NAME = 'protojam';
+const DATABASE_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const ACTIVE_SESSION_KEY = 'protojam:active-session';
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // private windows can refuse storage, let the next call try again
+    database = undefined;
+    throw error;
+  });
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = run(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function createSessionId() {
+  return crypto.randomUUID();
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const sessions = await withStore<IntegrationSession[]>('readonly', (store) =>
+    store.getAll()
+  );
+  return sessions
+    .map((session) => ({
+      id: session.id,
+      name: session.name,
+      repository: session.repository,
+      baseBranch: session.baseBranch,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      fileCount: session.plan?.pullRequest.files.length ?? 0,
+      revisionCount: session.revisions.length,
+      pullRequests: session.pullRequests,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadSession(
+  id: string
+): Promise<IntegrationSession | undefined> {
+  return withStore<IntegrationSession | undefined>('readonly', (store) =>
+    store.get(id)
+  );
+}
+
+export async function saveSession(session: IntegrationSession) {
+  await withStore('readwrite', (store) => store.put(session));
+}
+
+export async function deleteSession(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+  if (loadActiveSessionId() === id) saveActiveSessionId(null);
+}
+
+// a copy to try something else from the same point, without its pull requests
+export async function duplicateSession(
+  id: string
+): Promise<IntegrationSession> {
+  const session = await loadSession(id);
+  if (!session) throw new Error('The integration no longer exists.');
+
+  const now = new Date().toISOString();
+  // the name is also the prototype's route, so the copy keeps it
+  const copy: IntegrationSession = {
+    ...session,
+    id: createSessionId(),
+    createdAt: now,
+    updatedAt: now,
+    pullRequests: [],
+  };
+  await saveSession(copy);
+  return copy;
+}
+
+// the session reopened after a reload
+export function loadActiveSessionId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveSessionId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  else localStorage.removeItem(ACTIVE_SESSION_KEY);
+}
@@ -0,0 +1,494 @@
+import ts from 'typescript';
+import { globToRegExp } from './ignore';
+import { packageNameFromSpecifier } from './packageSpecifiers';
+import { ancestors, directoryOf, joinPath } from './paths';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface FileDiagnostic {
+  path: string;
+  // 1-based
+  line: number;
+  column: number;
+  message: string;
+  severity: DiagnosticSeverity;
+  source: 'typescript' | 'imports';
+}
+
+export interface TypecheckInput {
+  // every file in the repository once the plan is applied
+  paths: string[];
+  // contents of the proposed files and the target files they need, including
+  // tsconfigs and package.json manifests
+  files: Record<string, string>;
+  // the proposed files diagnostics are reported for
+  checkedPaths: string[];
+}
+
+// `lib.dom.d.ts` and friends, the caller decides where they come from
+export type LibLoader = (fileName: string) => Promise<string | undefined>;
+
+const TYPESCRIPT_FILE = /\.(?:[cm]?ts|tsx)$/;
+const SCRIPT_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+// the sandbox has no node_modules, so errors about missing modules and type
+// packages say nothing about the proposed code; imports are checked separately
+const IGNORED_CODES = new Set([
+  // cannot find module, or its declarations
+  2307, 2792, 7016,
+  // JSX needs react/jsx-runtime
+  2875,
+  // names from @types/node, test runners and bun
+  2580, 2582, 2591, 2867, 2868,
+  // file isn't listed in a composite project
+  6307,
+]);
+
+// stands in for the packages and bundler types that aren't installed
+function ambientDeclarations(packages: string[]) {
+  return [
+    ...packages.flatMap((name) => [
+      `declare module '${name}';`,
+      `declare module '${name}/*';`,
+    ]),
+    `declare module '*.module.css' { const classes: Record<string, string>; export default classes; }`,
+    `declare module '*.module.scss' { const classes: Record<string, string>; export default classes; }`,
+    ...[
+      'css',
+      'scss',
+      'sass',
+      'less',
+      'svg',
+      'png',
+      'jpg',
+      'jpeg',
+      'gif',
+      'webp',
+      'avif',
+      'ico',
+      'json',
+      'woff',
+      'woff2',
+      'mp4',
+      'webm',
+    ].map((extension) => `declare module '*.${extension}';`),
+    `declare module '*?raw' { const content: string; export default content; }`,
+    `declare module '*?url' { const url: string; export default url; }`,
+    `declare namespace JSX {
+  interface IntrinsicElements { [name: string]: any }
+  interface Element {}
+  interface ElementChildrenAttribute { children: {} }
+}`,
+  ].join('\n');
+}
+
+const AMBIENT_FILE = '/__protojam__/ambient.d.ts';
+const LIB_DIRECTORY = '/__protojam__/lib';
+
+// the compiler works on absolute paths, the repository root is `/`
+const toAbsolute = (path: string) => `/${path}`;
+const toRelative = (path: string) => path.replace(/^\/+/, '');
+
+function position(content: string, offset: number) {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1]!.length + 1 };
+}
+
+function createVirtualHost(input: TypecheckInput) {
+  const paths = new Set(input.paths);
+  const directories = new Set(input.paths.flatMap(ancestors));
+
+  return {
+    paths,
+    readFile: (fileName: string) => input.files[toRelative(fileName)],
+    fileExists: (fileName: string) => toRelative(fileName) in input.files,
+    // existence for import checks, whether or not the content was fetched
+    pathExists: (fileName: string) => paths.has(toRelative(fileName)),
+    directoryExists: (directoryName: string) =>
+      directories.has(toRelative(directoryName)),
+  };
+}
+
+type VirtualHost = ReturnType<typeof createVirtualHost>;
+
+// a rough stand-in for the compiler's own directory walker, enough to tell
+// which of several referenced tsconfigs owns a file
+function readDirectory(
+  host: VirtualHost,
+  rootDir: string,
+  extensions: readonly string[],
+  excludes: readonly string[] | undefined,
+  includes: readonly string[]
+) {
+  const root = toRelative(rootDir);
+  const toPattern = (glob: string) => {
+    const relative = glob.startsWith('/')
+      ? toRelative(glob)
+      : joinPath(root, glob);
+    // a plain directory includes everything below it
+    const pattern = /[*?]/.test(relative.split('/').pop()!)
+      ? relative
+      : `${relative}/**/*`;
+    return globToRegExp(pattern);
+  };
+  const included = includes.map(toPattern);
+  const excluded = (excludes || []).map(toPattern);
+
+  return [...host.paths]
+    .filter(
+      (path) =>
+        (!root || path.startsWith(`${root}/`)) &&
+        extensions.some((extension) => path.endsWith(extension)) &&
+        included.some((pattern) => pattern.test(path)) &&
+        !excluded.some((pattern) => pattern.test(path))
+    )
+    .map(toAbsolute);
+}
+
+interface ProjectConfig {
+  path?: string;
+  options: ts.CompilerOptions;
+  hasPaths: boolean;
+}
+
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  allowJs: true,
+  esModuleInterop: true,
+};
+
+function parseConfig(host: VirtualHost, path: string) {
+  const content = host.readFile(toAbsolute(path));
+  if (content === undefined) return undefined;
+  const { config } = ts.parseConfigFileTextToJson(path, content);
+  return ts.parseJsonConfigFileContent(
+    config || {},
+    {
+      useCaseSensitiveFileNames: true,
+      readDirectory: (rootDir, extensions, excludes, includes) =>
+        readDirectory(host, rootDir, extensions, excludes, includes),
+      fileExists: host.fileExists,
+      readFile: host.readFile,
+    },
+    toAbsolute(directoryOf(path)),
+    undefined,
+    toAbsolute(path)
+  );
+}
+
+// the nearest tsconfig.json, or the project it references that includes the
+// file when it only holds references, like Vite's tsconfig.app.json
+function findProjectConfig(host: VirtualHost, path: string): ProjectConfig {
+  for (const directory of ancestors(path)) {
+    const configPath = joinPath(directory, 'tsconfig.json');
+    const parsed = parseConfig(host, configPath);
+    if (!parsed) continue;
+
+    let owner = parsed;
+    let ownerPath = configPath;
+    if (parsed.fileNames.length === 0 && parsed.projectReferences) {
+      for (const reference of parsed.projectReferences) {
+        const referencePath = toRelative(reference.path);
+        const referenceConfig = referencePath.endsWith('.json')
+          ? referencePath
+          : joinPath(referencePath, 'tsconfig.json');
+        const referenced = parseConfig(host, referenceConfig);
+        if (referenced?.fileNames.includes(toAbsolute(path))) {
+          owner = referenced;
+          ownerPath = referenceConfig;
+          break;
+        }
+      }
+    }
+    return {
+      path: ownerPath,
+      options: owner.options,
+      hasPaths: Boolean(owner.options.paths),
+    };
+  }
+  return { options: DEFAULT_OPTIONS, hasPaths: false };
+}
+
+// lib file names are the name in `lib` or a `/// <reference lib>`, e.g. dom.iterable
+async function loadLibs(options: ts.CompilerOptions, loadLib: LibLoader) {
+  const libs: Record<string, string> = {};
+  const pending = options.lib
+    ? options.lib.map((lib) => toRelative(lib).split('/').pop()!)
+    : [ts.getDefaultLibFileName(options)];
+
+  while (pending.length) {
+    const fileName = pending.pop()!;
+    if (fileName in libs) continue;
+    const content = (await loadLib(fileName)) ?? '';
+    libs[fileName] = content;
+    for (const match of content.matchAll(
+      /\/\/\/\s*<reference\s+lib="([^"]+)"/g
+    )) {
+      pending.push(`lib.${match[1]!.toLowerCase()}.d.ts`);
+    }
+  }
+  return libs;
+}
+
+function dependencyNames(content: string) {
+  try {
+    const manifest = JSON.parse(content);
+    return [
+      manifest.name,
+      ...Object.keys(manifest.dependencies || {}),
+      ...Object.keys(manifest.devDependencies || {}),
+      ...Object.keys(manifest.peerDependencies || {}),
+    ].filter((name): name is string => typeof name === 'string');
+  } catch {
+    return [];
+  }
+}
+
+function manifestPaths(input: TypecheckInput) {
+  return Object.keys(input.files).filter(
+    (path) => path === 'package.json' || path.endsWith('/package.json')
+  );
+}
+
+// the nearest package.json owns a file's imports, hoisted root dependencies and
+// workspace packages resolve too
+function declaredPackages(input: TypecheckInput, path: string) {
+  const manifests = manifestPaths(input);
+  const nearest = ancestors(path)
+    .map((directory) => joinPath(directory, 'package.json'))
+    .find((manifest) => manifests.includes(manifest));
+  const workspaceNames = manifests.flatMap((manifest) => {
+    try {
+      const name = JSON.parse(input.files[manifest]!).name;
+      return typeof name === 'string' ? [name] : [];
+    } catch {
+      return [];
+    }
+  });
+  return {
+    manifest: nearest,
+    names: new Set([
+      ...(nearest ? dependencyNames(input.files[nearest]!) : []),
+      ...(input.files['package.json']
+        ? dependencyNames(input.files['package.json'])
+        : []),
+      ...workspaceNames,
+    ]),
+  };
+}
+
+function checkImports(
+  input: TypecheckInput,
+  host: VirtualHost,
+  path: string,
+  project: ProjectConfig
+): FileDiagnostic[] {
+  const content = input.files[path]!;
+  const packages = declaredPackages(input, path);
+  const resolutionHost: ts.ModuleResolutionHost = {
+    fileExists: host.pathExists,
+    readFile: host.readFile,
+    directoryExists: host.directoryExists,
+  };
+
+  return ts
+    .preProcessFile(content, true, true)
+    .importedFiles.flatMap(({ fileName: specifier, pos }) => {
+      // `?raw`, `?url` and friends are bundler suffixes
+      const request = specifier.replace(/[?#].*$/, '');
+      const { resolvedModule } = ts.resolveModuleName(
+        request,
+        toAbsolute(path),
+        project.options,
+        resolutionHost
+      );
+      if (resolvedModule && !resolvedModule.isExternalLibraryImport) return [];
+
+      const report = (
+        message: string,
+        severity: DiagnosticSeverity = 'error'
+      ) => [
+        {
+          path,
+          ...position(content, pos),
+          message,
+          severity,
+          source: 'imports' as const,
+        },
+      ];
+
+      if (request.startsWith('.') || request.startsWith('/')) {
+        const target = request.startsWith('/')
+          ? toRelative(request)
+          : joinPath(directoryOf(path), request);
+        // stylesheets, images and other files the bundler handles
+        if (host.paths.has(target)) return [];
+        return report(`Cannot find '${specifier}', ${target} doesn't exist.`);
+      }
+
+      const name = packageNameFromSpecifier(request);
+      if (name) {
+        if (packages.names.has(name)) return [];
+        return report(
+          `'${name}' isn't a dependency in ${
+            packages.manifest || 'any package.json'
+          }.`
+        );
+      }
+
+      // builtins and framework modules like node:fs, $app/stores or astro:content
+      if (!/^(?:[~#]|@\/)/.test(request)) return [];
+      return project.hasPaths
+        ? report(
+            `Cannot resolve '${specifier}' with the paths in ${project.path}.`
+          )
+        : report(
+            `Cannot resolve '${specifier}', there are no path aliases in ${
+              project.path || 'a tsconfig.json'
+            }.`,
+            'warning'
+          );
+    });
+}
+
+function toFileDiagnostic(
+  diagnostic: ts.Diagnostic,
+  path: string
+): FileDiagnostic {
+  const { line, character } =
+    diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 };
+  return {
+    path,
+    line: line + 1,
+    column: character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    source: 'typescript',
+  };
+}
+
+// type-check the proposed files against the target's tsconfig and check that
+// every import resolves to a file in the repository or a declared package
+export async function typecheckFiles(
+  input: TypecheckInput,
+  loadLib: LibLoader
+): Promise<FileDiagnostic[]> {
+  const host = createVirtualHost(input);
+  const checked = input.checkedPaths.filter(
+    (path) => SCRIPT_FILE.test(path) && path in input.files
+  );
+
+  // files under the same tsconfig are checked in one program
+  const projects = new Map<
+    string,
+    { config: ProjectConfig; paths: string[] }
+  >();
+  checked.forEach((path) => {
+    const config = findProjectConfig(host, path);
+    const key = config.path || '';
+    const project = projects.get(key) || { config, paths: [] };
+    project.paths.push(path);
+    projects.set(key, project);
+  });
+
+  const allPackages = [
+    ...new Set(
+      manifestPaths(input).flatMap((path) =>
+        dependencyNames(input.files[path]!)
+      )
+    ),
+  ];
+  const ambient = ambientDeclarations(allPackages);
+  const diagnostics: FileDiagnostic[] = [];
+
+  for (const { config, paths } of projects.values()) {
+    diagnostics.push(
+      ...paths.flatMap((path) => checkImports(input, host, path, config))
+    );
+
+    const typed = paths.filter(
+      (path) => TYPESCRIPT_FILE.test(path) || config.options.checkJs
+    );
+    if (typed.length === 0) continue;
+
+    const options: ts.CompilerOptions = {
+      ...config.options,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [],
+      typeRoots: [],
+      composite: false,
+      incremental: false,
+      declaration: false,
+      tsBuildInfoFile: undefined,
+    };
+    const libs = await loadLibs(options, loadLib);
+    const declarations = Object.keys(input.files).filter(
+      (path) =>
+        path.endsWith('.d.ts') &&
+        (!config.path || path.startsWith(directoryOf(config.path)))
+    );
+
+    const compilerHost: ts.CompilerHost = {
+      getSourceFile: (fileName, languageVersion) => {
+        const content =
+          fileName === AMBIENT_FILE
+            ? ambient
+            : fileName.startsWith(`${LIB_DIRECTORY}/`)
+            ? libs[fileName.slice(LIB_DIRECTORY.length + 1)]
+            : host.readFile(fileName);
+        return content === undefined
+          ? undefined
+          : ts.createSourceFile(fileName, content, languageVersion, true);
+      },
+      getDefaultLibFileName: (compilerOptions) =>
+        `${LIB_DIRECTORY}/${ts.getDefaultLibFileName(compilerOptions)}`,
+      getDefaultLibLocation: () => LIB_DIRECTORY,
+      writeFile: () => undefined,
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: (fileName) => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: (fileName) =>
+        fileName === AMBIENT_FILE ||
+        (fileName.startsWith(`${LIB_DIRECTORY}/`)
+          ? fileName.slice(LIB_DIRECTORY.length + 1) in libs
+          : host.fileExists(fileName)),
+      readFile: (fileName) => host.readFile(fileName),
+      directoryExists: host.directoryExists,
+      getDirectories: () => [],
+    };
+
+    const program = ts.createProgram({
+      rootNames: [...typed, ...declarations]
+        .map(toAbsolute)
+        .concat(AMBIENT_FILE),
+      options,
+      host: compilerHost,
+    });
+
+    typed.forEach((path) => {
+      const sourceFile = program.getSourceFile(toAbsolute(path));
+      if (!sourceFile) return;
+      diagnostics.push(
+        ...[
+          ...program.getSyntacticDiagnostics(sourceFile),
+          ...program.getSemanticDiagnostics(sourceFile),
+        ]
+          .filter((diagnostic) => !IGNORED_CODES.has(diagnostic.code))
+          .map((diagnostic) => toFileDiagnostic(diagnostic, path))
+      );
+    });
+  }
+
+  return diagnostics.sort(
+    (a, b) =>
+      a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column
+  );
+}
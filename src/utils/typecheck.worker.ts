@@ -0,0 +1,38 @@
+import {
+  typecheckFiles,
+  type FileDiagnostic,
+  type TypecheckInput,
+} from './typecheck';
+
+export type TypecheckRequest = { id: number; input: TypecheckInput };
+
+export type TypecheckResponse =
+  | { id: number; diagnostics: FileDiagnostic[] }
+  | { id: number; error: string };
+
+const LIB_PREFIX = '../../node_modules/typescript/lib/';
+
+// bundled as separate chunks, only the libs a tsconfig asks for are loaded
+const libFiles = import.meta.glob<string>(
+  '../../node_modules/typescript/lib/lib.*.d.ts',
+  { query: '?raw', import: 'default' }
+);
+
+const loadLib = async (fileName: string) =>
+  libFiles[`${LIB_PREFIX}${fileName}`]?.();
+
+const respond = (response: TypecheckResponse) => self.postMessage(response);
+
+self.addEventListener(
+  'message',
+  async ({ data: { id, input } }: MessageEvent<TypecheckRequest>) => {
+    try {
+      respond({ id, diagnostics: await typecheckFiles(input, loadLib) });
+    } catch (error) {
+      respond({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
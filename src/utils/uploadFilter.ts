@@ -0,0 +1,159 @@
+import { createIgnoreMatcher, parseIgnorePatterns } from './ignore';
+
+export interface UploadFilterSettings {
+  // gitignore-style globs, an empty include list keeps everything
+  include: string[];
+  exclude: string[];
+  maxFileSize: number;
+  maxTotalSize: number;
+}
+
+export type SkipReason =
+  | 'excluded'
+  | 'not-included'
+  | 'too-large'
+  | 'generated'
+  | 'total-size'
+  | 'manual';
+
+export interface UploadEntry {
+  // directories skipped as a whole end in a slash
+  path: string;
+  status: 'kept' | 'skipped';
+  reason?: SkipReason;
+  // unknown for entries that were never decompressed
+  size?: number;
+  binary?: boolean;
+  // number of files behind a skipped directory
+  count?: number;
+}
+
+// path → keep, set by the user in the upload summary
+export type UploadOverrides = Record<string, boolean>;
+
+export const DEFAULT_UPLOAD_EXCLUDES = [
+  'node_modules/',
+  '.git/',
+  '.next/',
+  '.nuxt/',
+  '.svelte-kit/',
+  '.astro/',
+  '.turbo/',
+  '.vercel/',
+  '.cache/',
+  'dist/',
+  'build/',
+  'out/',
+  'coverage/',
+  '__MACOSX/',
+  '.DS_Store',
+  'Thumbs.db',
+  '*.log',
+  '.env*',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+];
+
+export const DEFAULT_UPLOAD_FILTERS: UploadFilterSettings = {
+  include: [],
+  exclude: DEFAULT_UPLOAD_EXCLUDES,
+  maxFileSize: 256 * 1024,
+  maxTotalSize: 4 * 1024 * 1024,
+};
+
+const FILTERS_STORAGE_KEY = 'protojam:upload-filters';
+
+export function loadUploadFilters(): UploadFilterSettings {
+  try {
+    const stored = localStorage.getItem(FILTERS_STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_UPLOAD_FILTERS, ...JSON.parse(stored) }
+      : DEFAULT_UPLOAD_FILTERS;
+  } catch {
+    return DEFAULT_UPLOAD_FILTERS;
+  }
+}
+
+export function saveUploadFilters(settings: UploadFilterSettings) {
+  localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// archive metadata never counts towards a shared root folder
+const ARCHIVE_NOISE = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+// the folder every file sits in when a project was zipped from its parent
+export function findWrappingRoot(paths: string[]): string | undefined {
+  const relevant = paths.filter((path) => !ARCHIVE_NOISE.test(path));
+  if (relevant.length === 0) return undefined;
+
+  const [first] = relevant[0]!.split('/');
+  const wrapped = relevant.every(
+    (path) => path.includes('/') && path.split('/')[0] === first
+  );
+  return wrapped ? first : undefined;
+}
+
+export function createUploadScreen(settings: UploadFilterSettings) {
+  const excluded = createIgnoreMatcher(parseIgnorePatterns(settings.exclude));
+  const included = settings.include.some((glob) => glob.trim())
+    ? createIgnoreMatcher(parseIgnorePatterns(settings.include))
+    : () => true;
+
+  return {
+    // the shallowest excluded ancestor, so whole folders are skipped at once
+    excludedDirectory(path: string): string | undefined {
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i += 1) {
+        const directory = parts.slice(0, i).join('/');
+        if (excluded(directory, true)) return `${directory}/`;
+      }
+      return undefined;
+    },
+    reason(path: string): SkipReason | undefined {
+      if (excluded(path)) return 'excluded';
+      if (!included(path)) return 'not-included';
+      return undefined;
+    },
+  };
+}
+
+const GENERATED_NAME =
+  /\.(min|bundle|chunk|prod)\.(js|mjs|cjs|css)$|\.(js|css)\.map$|\.map$|(^|\/)[^/]+\.[0-9a-f]{8,}\.(js|css)$/;
+const GENERATED_MARKER =
+  /@generated|auto-?generated|do not edit|generated by|this file was automatically generated/i;
+
+// minified or machine-written files waste prompt space and can't be adapted
+export function isGeneratedFile(path: string, content: string): boolean {
+  if (GENERATED_NAME.test(path)) return true;
+  if (GENERATED_MARKER.test(content.slice(0, 500))) return true;
+
+  const lines = content.split('\n');
+  const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+  // hand-written code rarely has very long lines or a high average length
+  return (
+    content.length > 2000 &&
+    (longest > 5000 || content.length / lines.length > 300)
+  );
+}
+
+// keep or skip the override for a path or any of its parent directories
+export function findOverride(
+  overrides: UploadOverrides,
+  path: string
+): boolean | undefined {
+  if (path in overrides) return overrides[path];
+  const parts = path.split('/');
+  for (let i = parts.length - 1; i > 0; i -= 1) {
+    const directory = `${parts.slice(0, i).join('/')}/`;
+    if (directory in overrides) return overrides[directory];
+  }
+  return undefined;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
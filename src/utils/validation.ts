@@ -0,0 +1,322 @@
+import type { TargetManifests } from './dependencies';
+import { resultContent, sourcePath, type IntegrationPlan } from './llm';
+import { ancestors, directoryOf, joinPath } from './paths';
+import type { FileDiagnostic, TypecheckInput } from './typecheck';
+import type { TypecheckRequest, TypecheckResponse } from './typecheck.worker';
+
+export type { FileDiagnostic } from './typecheck';
+
+interface RepositoryFile {
+  path: string;
+  type: 'file' | 'directory';
+  content?: string;
+}
+
+interface ValidatePlanParams {
+  // only the files that will be committed
+  plan: IntegrationPlan;
+  entries: RepositoryFile[];
+  manifests?: TargetManifests | null;
+  // current contents at the analyzed commit, null for missing files
+  loadFiles: (paths: string[]) => Promise<Record<string, string | null>>;
+}
+
+// how far imports are followed into the target to give the checker their types
+const IMPORT_DEPTH = 2;
+const MAX_DECLARATION_FILES = 20;
+
+const SCRIPT_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+const RESOLVED_EXTENSIONS = [
+  '',
+  '.ts',
+  '.tsx',
+  '.d.ts',
+  '.js',
+  '.jsx',
+  '.mts',
+  '/index.ts',
+  '/index.tsx',
+  '/index.js',
+  '/index.jsx',
+];
+
+// tsconfig files allow comments and trailing commas
+function parseJsonc(content: string): Record<string, unknown> {
+  try {
+    return JSON.parse(
+      content
+        .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, '$1')
+        .replace(/,(\s*[}\]])/g, '$1')
+    );
+  } catch {
+    return {};
+  }
+}
+
+function importSpecifiers(content: string) {
+  const pattern =
+    /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\(\s*)['"]([^'"\n]+)['"]/g;
+  return [...content.matchAll(pattern)].map((match) => match[1]!);
+}
+
+interface AliasConfig {
+  directory: string;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+// a rough version of the compiler's resolution, good enough to decide which
+// target files to fetch; the checker resolves properly
+function resolveImport(
+  specifier: string,
+  from: string,
+  paths: Set<string>,
+  aliases: AliasConfig[]
+) {
+  const request = specifier.replace(/[?#].*$/, '');
+  const bases: string[] = [];
+  if (request.startsWith('.')) {
+    bases.push(joinPath(directoryOf(from), request));
+  } else {
+    aliases
+      .filter((alias) => from.startsWith(alias.directory))
+      .forEach((alias) => {
+        const root = joinPath(alias.directory, alias.baseUrl || '.');
+        Object.entries(alias.paths).forEach(([pattern, targets]) => {
+          const [prefix, suffix = ''] = pattern.split('*');
+          const matches = pattern.includes('*')
+            ? request.startsWith(prefix!) && request.endsWith(suffix)
+            : request === pattern;
+          if (!matches) return;
+          const captured = request.slice(
+            prefix!.length,
+            request.length - suffix.length
+          );
+          targets.forEach((target) =>
+            bases.push(joinPath(root, target.replace('*', captured)))
+          );
+        });
+      });
+  }
+
+  for (const base of bases) {
+    // `./file.js` in TypeScript ESM points at file.ts
+    const stems = [base, base.replace(/\.[cm]?jsx?$/, '')];
+    for (const stem of stems) {
+      const match = RESOLVED_EXTENSIONS.map((ext) => `${stem}${ext}`).find(
+        (path) => paths.has(path)
+      );
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+// the plan applied to the target tree: contents of the proposed files and the
+// tsconfigs, declarations and imported files the checker needs
+async function collectInput({
+  plan,
+  entries,
+  manifests,
+  loadFiles,
+}: ValidatePlanParams): Promise<TypecheckInput> {
+  const planFiles = plan.pullRequest.files;
+  const removed = new Set(
+    planFiles.flatMap((file) =>
+      file.operation === 'delete'
+        ? [file.path]
+        : file.operation === 'rename' && file.previousPath
+        ? [file.previousPath]
+        : []
+    )
+  );
+  const proposed = planFiles.filter((file) => file.operation !== 'delete');
+  const paths = new Set([
+    ...entries
+      .filter((entry) => entry.type === 'file' && !removed.has(entry.path))
+      .map((entry) => entry.path),
+    ...proposed.map((file) => file.path),
+  ]);
+
+  const files: Record<string, string> = {};
+  entries.forEach((entry) => {
+    if (entry.content !== undefined && paths.has(entry.path)) {
+      files[entry.path] = entry.content;
+    }
+  });
+  manifests?.packages.forEach((pkg) => {
+    files[pkg.path] = pkg.content;
+  });
+
+  const renamed = proposed.filter(
+    (file) => file.encoding !== 'base64' && !resultContent(file)
+  );
+  const originals = renamed.length
+    ? await loadFiles(renamed.map(sourcePath))
+    : {};
+  proposed.forEach((file) => {
+    if (file.encoding === 'base64') return;
+    const content = resultContent(file) || originals[sourcePath(file)];
+    if (typeof content === 'string') files[file.path] = content;
+  });
+  const checkedPaths = proposed
+    .map((file) => file.path)
+    .filter((path) => SCRIPT_FILE.test(path) && path in files);
+
+  const fetchMissing = async (wanted: Iterable<string>) => {
+    const missing = [...new Set(wanted)].filter(
+      (path) => paths.has(path) && !(path in files)
+    );
+    if (missing.length === 0) return [];
+    const contents = await loadFiles(missing);
+    return missing.filter((path) => {
+      const content = contents[path];
+      if (typeof content === 'string') files[path] = content;
+      return typeof content === 'string';
+    });
+  };
+
+  // the nearest tsconfig of each file and everything it extends or references
+  await fetchMissing(
+    checkedPaths.flatMap((path) =>
+      ancestors(path).map((directory) => joinPath(directory, 'tsconfig.json'))
+    )
+  );
+  const allConfigs = Object.keys(files).filter((path) =>
+    /(^|\/)tsconfig[^/]*\.json$/.test(path)
+  );
+  let configs = [...allConfigs];
+  while (configs.length) {
+    configs = await fetchMissing(
+      configs.flatMap((path) => {
+        const config = parseJsonc(files[path]!);
+        const extended = ([] as unknown[])
+          .concat(config.extends || [])
+          .filter((value): value is string => typeof value === 'string')
+          .filter((value) => value.startsWith('.'));
+        const references = Array.isArray(config.references)
+          ? config.references.map(
+              (reference: { path?: string }) => reference.path || ''
+            )
+          : [];
+        return [...extended, ...references].map((relative) => {
+          const target = joinPath(directoryOf(path), relative);
+          return target.endsWith('.json')
+            ? target
+            : joinPath(target, 'tsconfig.json');
+        });
+      })
+    );
+    allConfigs.push(...configs);
+  }
+
+  const aliases = allConfigs.flatMap((path) => {
+    const options = (parseJsonc(files[path] || '').compilerOptions || {}) as {
+      baseUrl?: string;
+      paths?: Record<string, string[]>;
+    };
+    return options.paths
+      ? [
+          {
+            directory: directoryOf(path),
+            baseUrl: options.baseUrl,
+            paths: options.paths,
+          },
+        ]
+      : [];
+  });
+
+  // global declarations like vite-env.d.ts
+  await fetchMissing(
+    [...paths]
+      .filter(
+        (path) => path.endsWith('.d.ts') && !path.includes('node_modules/')
+      )
+      .slice(0, MAX_DECLARATION_FILES)
+  );
+
+  let frontier = checkedPaths;
+  for (let depth = 0; depth < IMPORT_DEPTH && frontier.length; depth += 1) {
+    const imported = frontier.flatMap((path) =>
+      importSpecifiers(files[path] || '').flatMap((specifier) => {
+        const resolved = resolveImport(specifier, path, paths, aliases);
+        return resolved && SCRIPT_FILE.test(resolved) ? [resolved] : [];
+      })
+    );
+    frontier = await fetchMissing(imported);
+  }
+
+  return { paths: [...paths], files, checkedPaths };
+}
+
+let worker: Worker | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<
+  number,
+  {
+    resolve: (diagnostics: FileDiagnostic[]) => void;
+    reject: (error: Error) => void;
+  }
+>();
+
+// the compiler is large and slow to start, so one worker is kept for the session
+function typecheckWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('./typecheck.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.addEventListener(
+      'message',
+      ({ data }: MessageEvent<TypecheckResponse>) => {
+        const request = pendingRequests.get(data.id);
+        pendingRequests.delete(data.id);
+        if (!request) return;
+        if ('error' in data) request.reject(new Error(data.error));
+        else request.resolve(data.diagnostics);
+      }
+    );
+    worker.addEventListener('error', (event) => {
+      failTypecheckWorker(event.message || 'The type checker failed to start');
+    });
+    worker.addEventListener('messageerror', () => {
+      failTypecheckWorker("The type checker's response couldn't be read");
+    });
+  }
+  return worker;
+}
+
+// a worker that failed can't be trusted with the next request, the next
+// check starts a fresh one
+function failTypecheckWorker(message: string) {
+  console.error('Type checker worker failed:', message);
+  worker?.terminate();
+  worker = undefined;
+  pendingRequests.forEach((request) => request.reject(new Error(message)));
+  pendingRequests.clear();
+}
+
+function runTypecheck(input: TypecheckInput) {
+  const id = nextRequestId++;
+  return new Promise<FileDiagnostic[]>((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    const request: TypecheckRequest = { id, input };
+    typecheckWorker().postMessage(request);
+  });
+}
+
+// type-check the proposed files against the target's tsconfig and check their
+// imports resolve, before anything is committed
+export async function validatePlan(
+  params: ValidatePlanParams
+): Promise<FileDiagnostic[]> {
+  const input = await collectInput(params);
+  if (input.checkedPaths.length === 0) return [];
+  return runTypecheck(input);
+}
+
+export function countDiagnostics(diagnostics: FileDiagnostic[]) {
+  return {
+    errors: diagnostics.filter((d) => d.severity === 'error').length,
+    warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+  };
+}
@@ -1,35 +1,295 @@
 import JSZip from 'jszip';
+import { Buffer } from 'buffer';
+import type { PrototypeFile } from './llm';
+import {
+  createUploadScreen,
+  DEFAULT_UPLOAD_FILTERS,
+  findOverride,
+  findWrappingRoot,
+  isGeneratedFile,
+  type UploadEntry,
+  type UploadFilterSettings,
+  type UploadOverrides,
+} from './uploadFilter';
 
-export async function processZipFile(file: File): Promise<{ path: string; content: string }[]> {
-  const zip = new JSZip();
-  const files: { path: string; content: string }[] = [];
+const BINARY_EXTENSIONS = new Set([
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'avif',
+  'ico',
+  'bmp',
+  'tif',
+  'tiff',
+  'woff',
+  'woff2',
+  'ttf',
+  'otf',
+  'eot',
+  'mp3',
+  'mp4',
+  'webm',
+  'ogg',
+  'wav',
+  'pdf',
+  'zip',
+  'gz',
+  'wasm',
+]);
+
+// a file whose bytes are only read once it passes the path filters
+export interface SourceFile {
+  path: string;
+  // when the source lists it, oversized files are skipped without a download
+  size?: number;
+  read: () => Promise<Uint8Array>;
+}
+
+// everything that came in from one upload or import, before filtering
+export interface PrototypeSource {
+  files: SourceFile[];
+  // wrapping folders removed from the front of every path
+  strippedRoots: string[];
+}
+
+export interface UploadSummary {
+  files: PrototypeFile[];
+  entries: UploadEntry[];
+  strippedRoots: string[];
+  keptSize: number;
+}
+
+// files read at once, remote sources make a request per file
+const READ_BATCH_SIZE = 8;
+
+// git uses the same heuristic: a NUL byte in the first 8000 bytes means binary
+const SNIFF_LENGTH = 8000;
+
+export function isBinaryContent(path: string, bytes: Uint8Array): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  if (BINARY_EXTENSIONS.has(extension)) return true;
+  if (bytes.subarray(0, SNIFF_LENGTH).includes(0)) return true;
 
   try {
-    const zipContent = await zip.loadAsync(file);
-    
-    const processEntries = async () => {
-      const promises = [];
-      
-      zipContent.forEach((relativePath, entry) => {
-        if (!entry.dir) {
-          promises.push(
-            entry.async('string').then(content => {
-              files.push({
-                path: relativePath,
-                content
-              });
-            })
-          );
-        }
-      });
-      
-      await Promise.all(promises);
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+export function toPrototypeFile(
+  path: string,
+  bytes: Uint8Array
+): PrototypeFile {
+  if (isBinaryContent(path, bytes)) {
+    return {
+      path,
+      content: Buffer.from(bytes).toString('base64'),
+      encoding: 'base64',
     };
+  }
+  return { path, content: new TextDecoder('utf-8').decode(bytes) };
+}
+
+// the kept files of a stored session stand in for the original upload, so the
+// filters still work on them after a reload
+export function sourceFromPrototypeFiles(
+  files: PrototypeFile[]
+): PrototypeSource {
+  return {
+    files: files.map((file) => ({
+      path: file.path,
+      read: async () =>
+        file.encoding === 'base64'
+          ? new Uint8Array(Buffer.from(file.content, 'base64'))
+          : new TextEncoder().encode(file.content),
+    })),
+    strippedRoots: [],
+  };
+}
 
-    await processEntries();
-    return files;
+// read each source at most once, re-filtering shouldn't download again. A
+// failed read isn't kept, so the next one tries again
+export function cachedRead(
+  read: () => Promise<Uint8Array>
+): () => Promise<Uint8Array> {
+  let bytes: Promise<Uint8Array> | undefined;
+  return () => {
+    bytes ??= read().catch((error) => {
+      bytes = undefined;
+      throw error;
+    });
+    return bytes;
+  };
+}
+
+async function listZipEntries(file: Blob): Promise<SourceFile[]> {
+  const zip = new JSZip();
+
+  try {
+    const zipContent = await zip.loadAsync(file);
+    const entries: SourceFile[] = [];
+    zipContent.forEach((relativePath, entry) => {
+      if (!entry.dir) {
+        entries.push({
+          path: relativePath,
+          // read as bytes, decoding everything as a string corrupts binaries
+          read: () => entry.async('uint8array'),
+        });
+      }
+    });
+    return entries;
   } catch (error) {
     console.error('Error processing zip file:', error);
     throw new Error('Failed to process zip file');
   }
-}
\ No newline at end of file
+}
+
+// strip the folder a zip was wrapped in, so paths start at the project root
+export async function unpackZip(file: Blob): Promise<PrototypeSource> {
+  const entries = await listZipEntries(file);
+  const root = findWrappingRoot(entries.map((entry) => entry.path));
+  return {
+    files: entries.map((entry) => ({
+      path:
+        root && entry.path.startsWith(`${root}/`)
+          ? entry.path.slice(root.length + 1)
+          : entry.path,
+      read: cachedRead(entry.read),
+    })),
+    strippedRoots: root ? [root] : [],
+  };
+}
+
+export async function unpackFiles(files: File[]): Promise<PrototypeSource> {
+  const sources = await Promise.all(
+    files.map(async (file): Promise<PrototypeSource> => {
+      if (file.name.endsWith('.zip')) return unpackZip(file);
+      return {
+        files: [
+          {
+            path: file.name,
+            size: file.size,
+            read: async () => new Uint8Array(await file.arrayBuffer()),
+          },
+        ],
+        strippedRoots: [],
+      };
+    })
+  );
+  return {
+    files: sources.flatMap((source) => source.files),
+    strippedRoots: sources.flatMap((source) => source.strippedRoots),
+  };
+}
+
+// sort each file into kept or skipped, excluded folders are never read
+export async function processUploads(
+  source: PrototypeSource,
+  settings: UploadFilterSettings = DEFAULT_UPLOAD_FILTERS,
+  overrides: UploadOverrides = {}
+): Promise<UploadSummary> {
+  const screen = createUploadScreen(settings);
+  const entries: UploadEntry[] = [];
+  const skippedDirectories = new Map<string, UploadEntry>();
+  const candidates: Array<{ raw: SourceFile; override?: boolean }> = [];
+
+  const sorted = [...source.files].sort((a, b) => a.path.localeCompare(b.path));
+  for (const raw of sorted) {
+    const override = findOverride(overrides, raw.path);
+
+    if (override === undefined) {
+      const directory = screen.excludedDirectory(raw.path);
+      if (directory) {
+        const entry = skippedDirectories.get(directory);
+        if (entry) {
+          entry.count = (entry.count || 0) + 1;
+        } else {
+          skippedDirectories.set(directory, {
+            path: directory,
+            status: 'skipped',
+            reason: 'excluded',
+            count: 1,
+          });
+        }
+        continue;
+      }
+      const reason = screen.reason(raw.path);
+      if (reason) {
+        entries.push({ path: raw.path, status: 'skipped', reason });
+        continue;
+      }
+      if (raw.size !== undefined && raw.size > settings.maxFileSize) {
+        entries.push({
+          path: raw.path,
+          status: 'skipped',
+          reason: 'too-large',
+          size: raw.size,
+        });
+        continue;
+      }
+    } else if (!override) {
+      entries.push({ path: raw.path, status: 'skipped', reason: 'manual' });
+      continue;
+    }
+
+    candidates.push({ raw, override });
+  }
+
+  const contents: Uint8Array[] = [];
+  for (let i = 0; i < candidates.length; i += READ_BATCH_SIZE) {
+    contents.push(
+      ...(await Promise.all(
+        candidates
+          .slice(i, i + READ_BATCH_SIZE)
+          .map((candidate) => candidate.raw.read())
+      ))
+    );
+  }
+
+  // sizes add up in path order, so the same files are kept on every run
+  const kept: PrototypeFile[] = [];
+  let keptSize = 0;
+  candidates.forEach(({ raw, override }, index) => {
+    const bytes = contents[index]!;
+    const file = toPrototypeFile(raw.path, bytes);
+    const entry: UploadEntry = {
+      path: raw.path,
+      status: 'skipped',
+      size: bytes.length,
+      binary: file.encoding === 'base64',
+    };
+
+    if (!override) {
+      if (bytes.length > settings.maxFileSize) {
+        entries.push({ ...entry, reason: 'too-large' });
+        return;
+      }
+      if (!entry.binary && isGeneratedFile(raw.path, file.content)) {
+        entries.push({ ...entry, reason: 'generated' });
+        return;
+      }
+      if (keptSize + bytes.length > settings.maxTotalSize) {
+        entries.push({ ...entry, reason: 'total-size' });
+        return;
+      }
+    }
+
+    kept.push(file);
+    keptSize += bytes.length;
+    entries.push({ ...entry, status: 'kept' });
+  });
+
+  return {
+    files: kept,
+    entries: [
+      ...entries.sort((a, b) => a.path.localeCompare(b.path)),
+      ...skippedDirectories.values(),
+    ],
+    strippedRoots: source.strippedRoots,
+    keptSize,
+  };
+}
@@ -1,12 +1,57 @@
-import { defineConfig } from 'vite';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// lets the mock LLM provider write recorded responses to fixtures/llm
+function llmFixtures(): Plugin {
+  const directory = fileURLToPath(new URL('./fixtures/llm/', import.meta.url));
+
+  return {
+    name: 'llm-fixtures',
+    configureServer(server) {
+      server.middlewares.use('/__fixtures/llm', (req, res, next) => {
+        if (req.method !== 'POST') {
+          return next();
+        }
+
+        const hash = (req.url || '').replace(/^\//, '');
+        if (!/^[a-f0-9]+$/.test(hash)) {
+          res.statusCode = 400;
+          res.end('Invalid fixture hash');
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', async () => {
+          try {
+            await mkdir(directory, { recursive: true });
+            await writeFile(`${directory}${hash}.json`, `${body}\n`);
+            res.statusCode = 204;
+            res.end();
+          } catch (error) {
+            res.statusCode = 500;
+            res.end(String(error));
+          }
+        });
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), llmFixtures()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // the type-check worker loads TypeScript's lib files as separate chunks
+  worker: {
+    format: 'es',
+  },
   server: {
     proxy: {
       '/api/openai': {